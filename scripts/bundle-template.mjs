@@ -17,6 +17,7 @@ async function main() {
   
   const entryPoint = path.resolve(__dirname, '../templates/universal/src/index.ts');
   const outputDir = path.resolve(__dirname, '../templates/universal/bundle');
+  const publicDir = path.resolve(__dirname, '../templates/universal/public');
   
   console.log(`[Bundle] Entry: ${entryPoint}`);
   console.log(`[Bundle] Output: ${outputDir}`);
@@ -25,6 +26,7 @@ async function main() {
     const bundleLocation = await bundle({
       entryPoint,
       outDir: outputDir,
+      publicDir,
       webpackOverride: (config) => {
         return {
           ...config,
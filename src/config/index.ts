@@ -7,6 +7,7 @@
 
 import * as os from 'os';
 import * as path from 'path';
+import { fileURLToPath } from 'url';
 
 export interface UrlOutputConfig {
   port: number;
@@ -20,20 +21,91 @@ export interface UrlOutputConfig {
 export interface StorageOutputConfig {
   endpoint: string;
   apiKey: string;
+  /** Chunk size for storage_upload_chunk calls */
+  chunkSizeBytes: number;
+  /** Largest render accepted at all */
+  maxUploadBytes: number;
+  /** Largest render sent in a single storage_store call, when chunked upload is unavailable */
+  maxInlineBytes: number;
+  /** Retries per request on network errors, 429 and 5xx */
+  maxRetries: number;
 }
 
+export interface S3OutputConfig {
+  bucket: string;
+  /** Key prefix, e.g. "renders/" */
+  prefix: string;
+  region: string;
+  /** Custom endpoint for S3-compatible services (MinIO, R2, ...); empty for AWS */
+  endpoint: string;
+  /** Empty to use the default AWS credential chain */
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+  /** Lifetime of presigned GET URLs */
+  urlTtlSeconds: number;
+  /** Public base URL (bucket website or CDN); when set, plain URLs are returned instead of presigned ones */
+  publicUrl: string;
+  /** Part size for multipart uploads; smaller files are uploaded in one request */
+  partSizeBytes: number;
+}
+
+export interface FilesystemOutputConfig {
+  dir: string;
+  /** Path of each render relative to dir, see FilesystemHandler for placeholders */
+  filenameTemplate: string;
+  /** When false, an existing file is never replaced: a numeric suffix is added instead */
+  overwrite: boolean;
+  /** Write a <file>.json sidecar with the render metadata */
+  writeMetadata: boolean;
+}
+
+export type OutputMode = 'url' | 'storage' | 's3' | 'filesystem';
+
+const OUTPUT_MODES: OutputMode[] = ['url', 'storage', 's3', 'filesystem'];
+
+export type LogLevel = 'verbose' | 'info' | 'warn' | 'error';
+
+const LOG_LEVELS: LogLevel[] = ['verbose', 'info', 'warn', 'error'];
+
 export interface RenderConfig {
   concurrency: number;
+  maxConcurrentRenders: number;
+  maxQueueLength: number;
+  /** Longest wait for a frame's assets (delayRender) before the render fails */
   timeoutPerFrame: number;
-  logLevel: 'verbose' | 'info' | 'warn' | 'error';
+  /** Whole-render deadline, from leaving the queue; 0 disables it */
+  maxRenderSeconds: number;
+  logLevel: LogLevel;
+  /** Cached bundles are evicted, least recently used first, beyond this total size... */
+  bundleCacheMaxBytes: number;
+  /** ...or this many bundles */
+  bundleCacheMaxEntries: number;
+  /** Close the shared headless browser after this long without renders */
+  browserIdleSeconds: number;
+  /** Largest still or poster returned inline as MCP image content unless requested explicitly */
+  inlineImageMaxBytes: number;
   workDir: string;
+  universalTemplateDir: string;
+}
+
+export interface TemplatesConfig {
+  dir: string;
+}
+
+export interface JobsConfig {
+  retentionSeconds: number;
 }
 
 export interface Config {
-  outputMode: 'url' | 'storage';
+  outputMode: OutputMode;
   url: UrlOutputConfig;
   storage: StorageOutputConfig;
+  s3: S3OutputConfig;
+  filesystem: FilesystemOutputConfig;
   render: RenderConfig;
+  templates: TemplatesConfig;
+  jobs: JobsConfig;
 }
 
 function getEnvString(key: string, defaultValue: string): string {
@@ -47,21 +119,45 @@ function getEnvInt(key: string, defaultValue: number): number {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+function getEnvBool(key: string, defaultValue: boolean): boolean {
+  const value = process.env[key];
+  if (!value) return defaultValue;
+  return ['1', 'true', 'yes'].includes(value.toLowerCase());
+}
+
 // Get platform-appropriate temp directory
 function getTempDir(): string {
   return path.join(os.tmpdir(), 'remotion-mcp');
 }
 
+// templates/universal at the package root (from src/config or dist/config)
+function getUniversalTemplateDir(): string {
+  return fileURLToPath(new URL('../../templates/universal', import.meta.url));
+}
+
+// Remotion log level; a typo falls back to 'error' instead of reaching the renderer
+function getLogLevel(): LogLevel {
+  const value = getEnvString('REMOTION_LOG_LEVEL', 'error') as LogLevel;
+  if (LOG_LEVELS.includes(value)) return value;
+  console.error(`[Config] Invalid REMOTION_LOG_LEVEL '${value}', expected one of: ${LOG_LEVELS.join(', ')}. Using 'error'.`);
+  return 'error';
+}
+
 export function loadConfig(): Config {
-  // Determine output mode
-  // If STORAGE_ENDPOINT is set (injected by BigMCP), use storage mode
+  // Determine output mode: OUTPUT_MODE wins, otherwise
+  // storage mode if STORAGE_ENDPOINT is set (injected by BigMCP), else url
   const storageEndpoint = getEnvString('STORAGE_ENDPOINT', '');
-  const outputMode = storageEndpoint ? 'storage' : 'url';
+  const outputMode = getEnvString('OUTPUT_MODE', storageEndpoint ? 'storage' : 'url') as OutputMode;
+  if (!OUTPUT_MODES.includes(outputMode)) {
+    throw new Error(`Invalid OUTPUT_MODE '${outputMode}', expected one of: ${OUTPUT_MODES.join(', ')}`);
+  }
+
+  const s3Endpoint = getEnvString('S3_ENDPOINT', '');
   
   const tempDir = getTempDir();
 
   return {
-    outputMode: outputMode as 'url' | 'storage',
+    outputMode,
 
     url: {
       port: getEnvInt('URL_PORT', 8081),
@@ -75,13 +171,54 @@ export function loadConfig(): Config {
     storage: {
       endpoint: storageEndpoint,
       apiKey: getEnvString('STORAGE_API_KEY', ''),
+      chunkSizeBytes: getEnvInt('STORAGE_CHUNK_SIZE_BYTES', 8 * 1024 * 1024), // 8MB
+      maxUploadBytes: getEnvInt('STORAGE_MAX_UPLOAD_BYTES', 2 * 1024 * 1024 * 1024), // 2GB
+      maxInlineBytes: getEnvInt('STORAGE_MAX_INLINE_BYTES', 50 * 1024 * 1024), // 50MB
+      maxRetries: getEnvInt('STORAGE_MAX_RETRIES', 3),
+    },
+
+    s3: {
+      bucket: getEnvString('S3_BUCKET', ''),
+      prefix: getEnvString('S3_PREFIX', ''),
+      region: getEnvString('S3_REGION', getEnvString('AWS_REGION', 'us-east-1')),
+      endpoint: s3Endpoint,
+      accessKeyId: getEnvString('S3_ACCESS_KEY_ID', ''),
+      secretAccessKey: getEnvString('S3_SECRET_ACCESS_KEY', ''),
+      // Most S3-compatible services don't support virtual-hosted buckets
+      forcePathStyle: getEnvBool('S3_FORCE_PATH_STYLE', Boolean(s3Endpoint)),
+      urlTtlSeconds: getEnvInt('S3_URL_TTL_SECONDS', 3600), // 1 hour
+      publicUrl: getEnvString('S3_PUBLIC_URL', ''),
+      partSizeBytes: getEnvInt('S3_PART_SIZE_BYTES', 8 * 1024 * 1024), // 8MB
+    },
+
+    filesystem: {
+      dir: path.resolve(getEnvString('FS_OUTPUT_DIR', path.join(os.homedir(), 'remotion-renders'))),
+      filenameTemplate: getEnvString('FS_FILENAME_TEMPLATE', '{date}/{title-slug}-{id}.{ext}'),
+      overwrite: getEnvBool('FS_OVERWRITE', false),
+      writeMetadata: getEnvBool('FS_WRITE_METADATA', false),
     },
 
     render: {
       concurrency: getEnvInt('REMOTION_CONCURRENCY', 2),
+      maxConcurrentRenders: getEnvInt('REMOTION_MAX_CONCURRENT_RENDERS', 1),
+      maxQueueLength: getEnvInt('REMOTION_MAX_QUEUE_LENGTH', 10),
       timeoutPerFrame: getEnvInt('REMOTION_TIMEOUT_PER_FRAME', 30000), // 30s
-      logLevel: getEnvString('REMOTION_LOG_LEVEL', 'error') as Config['render']['logLevel'],
+      maxRenderSeconds: getEnvInt('REMOTION_MAX_RENDER_SECONDS', 3600), // 1 hour
+      logLevel: getLogLevel(),
+      bundleCacheMaxBytes: getEnvInt('REMOTION_BUNDLE_CACHE_MAX_BYTES', 2 * 1024 * 1024 * 1024), // 2GB
+      bundleCacheMaxEntries: getEnvInt('REMOTION_BUNDLE_CACHE_MAX_ENTRIES', 20),
+      browserIdleSeconds: getEnvInt('REMOTION_BROWSER_IDLE_SECONDS', 300), // 5 minutes
+      inlineImageMaxBytes: getEnvInt('INLINE_IMAGE_MAX_BYTES', 1024 * 1024), // 1MB
       workDir: getEnvString('REMOTION_WORK_DIR', path.join(tempDir, 'work')),
+      universalTemplateDir: getEnvString('REMOTION_UNIVERSAL_TEMPLATE_DIR', getUniversalTemplateDir()),
+    },
+
+    templates: {
+      dir: getEnvString('REMOTION_TEMPLATES_DIR', path.join(tempDir, 'templates')),
+    },
+
+    jobs: {
+      retentionSeconds: getEnvInt('JOB_RETENTION_SECONDS', 3600), // 1 hour
     },
   };
 }
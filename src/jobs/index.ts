@@ -0,0 +1,5 @@
+/**
+ * Jobs Module
+ */
+
+export * from './manager.js';
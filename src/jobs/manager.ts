@@ -0,0 +1,198 @@
+/**
+ * Job Manager
+ *
+ * Runs long renders in the background so MCP calls can return immediately.
+ * Jobs are kept in memory and pruned once finished for longer than the retention period.
+ */
+
+import { randomUUID } from 'crypto';
+import { JobsConfig } from '../config/index.js';
+import { FileMetadata } from '../output/index.js';
+import { RenderCancelledError, RenderOptions, RenderProgress, RenderedImage } from '../render/index.js';
+
+const log = (...args: unknown[]) => console.error('[JobManager]', ...args);
+
+export type JobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobResult {
+  url: string;
+  /** Local path, when the output handler writes to the filesystem */
+  path?: string;
+  expiresAt?: string;
+  metadata?: FileMetadata;
+  warnings?: string[];
+  /** Poster frame returned as image content with the result */
+  poster?: RenderedImage;
+  /** One output per settings.variants entry; the fields above are the first one */
+  variants?: VariantResult[];
+}
+
+export interface VariantResult extends Omit<JobResult, 'warnings' | 'variants'> {
+  name: string;
+}
+
+export interface Job {
+  id: string;
+  type: 'video';
+  state: JobState;
+  /** Progress percentage (0-100) */
+  progress: number;
+  renderedFrames?: number;
+  totalFrames?: number;
+  /** Estimated remaining time in seconds, once progress is known */
+  etaSeconds?: number;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: JobResult;
+  error?: string;
+}
+
+export type JobRunner = (options: Required<RenderOptions>) => Promise<JobResult>;
+
+interface JobEntry {
+  job: Job;
+  controller: AbortController;
+}
+
+const FINISHED_STATES: JobState[] = ['completed', 'failed', 'cancelled'];
+
+export class JobManager {
+  private config: JobsConfig;
+  private jobs: Map<string, JobEntry> = new Map();
+
+  constructor(config: JobsConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Start a job in the background and return it immediately
+   */
+  submit(type: Job['type'], run: JobRunner): Job {
+    this.prune();
+
+    const entry: JobEntry = {
+      job: {
+        id: randomUUID(),
+        type,
+        state: 'queued',
+        progress: 0,
+        createdAt: new Date().toISOString(),
+      },
+      controller: new AbortController(),
+    };
+
+    this.jobs.set(entry.job.id, entry);
+    log(`Job ${entry.job.id} submitted (${type})`);
+
+    this.execute(entry, run);
+
+    return { ...entry.job };
+  }
+
+  get(id: string): Job | undefined {
+    const entry = this.jobs.get(id);
+    if (!entry) return undefined;
+    return { ...entry.job, etaSeconds: this.estimateRemaining(entry.job) };
+  }
+
+  list(): Job[] {
+    this.prune();
+    return Array.from(this.jobs.keys()).map((id) => this.get(id)!);
+  }
+
+  cancel(id: string): Job {
+    const entry = this.jobs.get(id);
+    if (!entry) {
+      throw new Error(`Job '${id}' not found`);
+    }
+
+    if (FINISHED_STATES.includes(entry.job.state)) {
+      throw new Error(`Job '${id}' is already ${entry.job.state}`);
+    }
+
+    entry.controller.abort();
+    this.finish(entry, 'cancelled');
+    log(`Job ${id} cancelled`);
+
+    return { ...entry.job };
+  }
+
+  /**
+   * Cancel every unfinished job (used on shutdown)
+   */
+  cancelAll(): void {
+    for (const entry of this.jobs.values()) {
+      if (!FINISHED_STATES.includes(entry.job.state)) {
+        entry.controller.abort();
+        this.finish(entry, 'cancelled');
+      }
+    }
+  }
+
+  private async execute(entry: JobEntry, run: JobRunner): Promise<void> {
+    const { job, controller } = entry;
+
+    try {
+      const result = await run({
+        signal: controller.signal,
+        onProgress: (progress: RenderProgress) => this.updateProgress(job, progress),
+        onStart: () => {
+          if (job.state !== 'queued') return;
+          job.state = 'running';
+          job.startedAt = new Date().toISOString();
+        },
+      });
+
+      if (FINISHED_STATES.includes(job.state)) return;
+
+      job.result = result;
+      job.progress = 100;
+      this.finish(entry, 'completed');
+      log(`Job ${job.id} completed`);
+    } catch (err) {
+      if (FINISHED_STATES.includes(job.state)) return;
+
+      if (err instanceof RenderCancelledError) {
+        this.finish(entry, 'cancelled');
+        return;
+      }
+
+      job.error = err instanceof Error ? err.message : 'Unknown error';
+      this.finish(entry, 'failed');
+      log(`Job ${job.id} failed:`, job.error);
+    }
+  }
+
+  private updateProgress(job: Job, progress: RenderProgress): void {
+    if (job.state !== 'running' || progress.stage !== 'rendering') return;
+    job.progress = Math.min(99, Math.round(progress.progress * 100));
+    job.renderedFrames = progress.renderedFrames;
+    job.totalFrames = progress.totalFrames;
+  }
+
+  private finish(entry: JobEntry, state: JobState): void {
+    entry.job.state = state;
+    entry.job.finishedAt = new Date().toISOString();
+  }
+
+  private estimateRemaining(job: Job): number | undefined {
+    if (job.state !== 'running' || !job.startedAt || job.progress <= 0) {
+      return undefined;
+    }
+
+    const elapsed = (Date.now() - Date.parse(job.startedAt)) / 1000;
+    const remaining = elapsed * (100 - job.progress) / job.progress;
+    return Math.round(remaining);
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.config.retentionSeconds * 1000;
+
+    for (const [id, { job }] of this.jobs) {
+      if (job.finishedAt && Date.parse(job.finishedAt) < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
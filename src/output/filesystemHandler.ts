@@ -0,0 +1,211 @@
+/**
+ * Filesystem Output Handler
+ *
+ * Desktop mode: writes renders into a local directory and returns their
+ * absolute path and file:// URI. No HTTP server is started.
+ *
+ * File paths come from a template relative to the output directory, with placeholders:
+ * {date} (YYYY-MM-DD), {time} (HHmmss), {timestamp} (ms), {id} (8 hex chars),
+ * {title-slug}, {name} (suggested filename without extension) and {ext}.
+ */
+
+import { randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import {
+  OutputHandler,
+  FileData,
+  OutputResult,
+  OutputStatus,
+  StoredFile,
+} from './handler.js';
+import { FilesystemOutputConfig } from '../config/index.js';
+import { listFiles } from '../utils/index.js';
+
+const MAX_SLUG_LENGTH = 60;
+const MAX_UNIQUE_ATTEMPTS = 1000;
+
+export class FilesystemHandler implements OutputHandler {
+  private config: FilesystemOutputConfig;
+  private ready = false;
+  private error: string | null = null;
+
+  constructor(config: FilesystemOutputConfig) {
+    this.config = config;
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await fs.mkdir(this.config.dir, { recursive: true });
+      await fs.access(this.config.dir, fs.constants.W_OK);
+    } catch (err) {
+      this.error = `Output directory ${this.config.dir} is not writable`;
+      throw new Error(this.error, { cause: err });
+    }
+
+    console.error(`[FilesystemHandler] Writing renders to ${this.config.dir}`);
+    this.ready = true;
+  }
+
+  async store(file: FileData): Promise<OutputResult> {
+    if (!this.ready) {
+      throw new Error('FilesystemHandler not initialized');
+    }
+
+    const target = this.resolvePath(file);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const filepath = await this.write(target, file.buffer);
+
+    if (this.config.writeMetadata) {
+      await fs.writeFile(`${filepath}.json`, JSON.stringify({
+        path: filepath,
+        mimeType: file.mimeType,
+        size: file.buffer.length,
+        title: file.title,
+        createdAt: new Date().toISOString(),
+        metadata: file.metadata ?? {},
+      }, null, 2));
+    }
+
+    return {
+      id: path.relative(this.config.dir, filepath),
+      url: pathToFileURL(filepath).href,
+      path: filepath,
+      metadata: file.metadata,
+    };
+  }
+
+  async list(): Promise<StoredFile[]> {
+    const paths = new Set(await listFiles(this.config.dir));
+
+    const files: StoredFile[] = [];
+    for (const filepath of paths) {
+      // Metadata sidecars are listed with their render
+      if (filepath.endsWith('.json') && paths.has(filepath.slice(0, -'.json'.length))) continue;
+
+      const stat = await fs.stat(filepath);
+      const sidecar = paths.has(`${filepath}.json`) ? await this.readSidecar(filepath) : null;
+      files.push({
+        id: path.relative(this.config.dir, filepath),
+        filename: path.basename(filepath),
+        url: pathToFileURL(filepath).href,
+        mimeType: sidecar?.mimeType,
+        size: stat.size,
+        createdAt: stat.birthtime.toISOString(),
+        metadata: sidecar?.metadata,
+      });
+    }
+
+    return files.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async delete(id: string): Promise<void> {
+    const filepath = path.resolve(this.config.dir, id);
+    if (!filepath.startsWith(this.config.dir + path.sep)) {
+      throw new Error(`File '${id}' not found`);
+    }
+
+    try {
+      await fs.unlink(filepath);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`File '${id}' not found`);
+      }
+      throw err;
+    }
+    await fs.rm(`${filepath}.json`, { force: true });
+  }
+
+  getStatus(): OutputStatus {
+    return {
+      mode: 'filesystem',
+      ready: this.ready,
+      details: {
+        directory: this.config.dir,
+        error: this.error || undefined,
+      },
+    };
+  }
+
+  async shutdown(): Promise<void> {
+    // Nothing to cleanup, files are kept
+  }
+
+  /**
+   * Expand the filename template into an absolute path inside the output directory
+   */
+  private resolvePath(file: FileData): string {
+    const now = new Date();
+    const iso = now.toISOString();
+    const ext = path.extname(file.filename);
+    const name = path.basename(file.filename, ext);
+
+    const values: Record<string, string> = {
+      date: iso.slice(0, 10),
+      time: iso.slice(11, 19).replace(/:/g, ''),
+      timestamp: String(now.getTime()),
+      id: randomUUID().slice(0, 8),
+      'title-slug': this.slugify(file.title || name),
+      name: this.slugify(name),
+      ext: ext.replace(/^\./, ''),
+    };
+
+    const relative = this.config.filenameTemplate.replace(/\{([a-z-]+)\}/g, (match, key: string) =>
+      values[key] ?? match
+    );
+
+    const resolved = path.resolve(this.config.dir, relative);
+    if (!resolved.startsWith(this.config.dir + path.sep)) {
+      throw new Error(`Filename template resolves outside of ${this.config.dir}: ${relative}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Write the file. Unless overwriting is enabled, an existing file is kept
+   * and "-1", "-2", ... is appended to the new file name.
+   */
+  private async write(target: string, buffer: Buffer): Promise<string> {
+    if (this.config.overwrite) {
+      await fs.writeFile(target, buffer);
+      return target;
+    }
+
+    const ext = path.extname(target);
+    const base = target.slice(0, target.length - ext.length);
+
+    for (let attempt = 0; attempt < MAX_UNIQUE_ATTEMPTS; attempt++) {
+      const candidate = attempt === 0 ? target : `${base}-${attempt}${ext}`;
+      try {
+        // 'wx' fails if the file exists, so concurrent renders can't clobber each other
+        await fs.writeFile(candidate, buffer, { flag: 'wx' });
+        return candidate;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      }
+    }
+
+    throw new Error(`Could not find a free file name for ${target}`);
+  }
+
+  private async readSidecar(filepath: string): Promise<{ mimeType?: string; metadata?: StoredFile['metadata'] } | null> {
+    try {
+      return JSON.parse(await fs.readFile(`${filepath}.json`, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private slugify(text: string): string {
+    const slug = text
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, MAX_SLUG_LENGTH)
+      .replace(/-+$/, '');
+    return slug || 'untitled';
+  }
+}
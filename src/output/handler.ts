@@ -2,9 +2,11 @@
  * Output Handler Interface
  * 
  * Defines the contract for storing rendered files and returning URLs.
- * Two implementations:
+ * Implementations:
  * - UrlHandler: Serves files locally via HTTP (standalone mode)
  * - StorageHandler: Delegates to external Storage Service (integrated mode)
+ * - S3Handler: Uploads to S3-compatible object storage
+ * - FilesystemHandler: Writes to a local directory (desktop mode)
  */
 
 export interface FileData {
@@ -16,6 +18,9 @@ export interface FileData {
   
   /** Suggested filename */
   filename: string;
+
+  /** Human-readable title (e.g. the first scene title), used to name files */
+  title?: string;
   
   /** Optional metadata about the file */
   metadata?: FileMetadata;
@@ -39,8 +44,14 @@ export interface FileMetadata {
 }
 
 export interface OutputResult {
-  /** Public URL to access the file */
+  /** Handler-specific file ID, used by the output management tools */
+  id?: string;
+
+  /** Public URL to access the file (file:// URI in filesystem mode) */
   url: string;
+
+  /** Absolute path of the file, for handlers writing to the local filesystem */
+  path?: string;
   
   /** Metadata about the stored file */
   metadata?: FileMetadata;
@@ -51,7 +62,7 @@ export interface OutputResult {
 
 export interface OutputStatus {
   /** Current mode */
-  mode: 'url' | 'storage';
+  mode: 'url' | 'storage' | 's3' | 'filesystem';
   
   /** Whether the handler is ready */
   ready: boolean;
@@ -64,19 +75,54 @@ export interface OutputStatus {
     fileCount?: number;
     /** For URL mode: HTTP server port */
     port?: number;
-    /** For Storage mode: endpoint */
+    /** For Storage and S3 modes: endpoint */
     endpoint?: string;
+    /** For S3 mode: bucket */
+    bucket?: string;
+    /** For filesystem mode: output directory */
+    directory?: string;
     /** Error message if not ready */
     error?: string;
   };
 }
 
+export interface StoredFile {
+  /** Handler-specific file ID */
+  id: string;
+  filename: string;
+  /** Current URL, when the handler can provide one */
+  url?: string;
+  mimeType?: string;
+  size: number;
+  /** Creation time (ISO string) */
+  createdAt: string;
+  /** Expiration time (ISO string), if the file or its URL expires */
+  expiresAt?: string;
+  metadata?: FileMetadata;
+}
+
+/**
+ * Upload progress: fraction of the file stored so far, from 0 to 1
+ */
+export type UploadProgressCallback = (fraction: number) => void;
+
 /**
- * OutputHandler interface
+ * OutputHandler interface.
+ * File management methods are optional: handlers implement what their backend allows.
  */
 export interface OutputHandler {
   initialize(): Promise<void>;
-  store(file: FileData): Promise<OutputResult>;
+  /** onProgress is called as the upload advances, by handlers that upload in parts */
+  store(file: FileData, onProgress?: UploadProgressCallback): Promise<OutputResult>;
   getStatus(): OutputStatus;
   shutdown(): Promise<void>;
+
+  /** List stored files, most recent first */
+  list?(): Promise<StoredFile[]>;
+  /** Delete a file, invalidating its URL */
+  delete?(id: string): Promise<void>;
+  /** Push back the expiry of a file (or of its URL) by the given number of seconds */
+  extendTtl?(id: string, seconds: number): Promise<StoredFile>;
+  /** Issue a new URL for a file and revoke the previous one */
+  regenerateToken?(id: string): Promise<StoredFile>;
 }
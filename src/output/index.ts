@@ -5,10 +5,14 @@
 export * from './handler.js';
 export { UrlHandler } from './urlHandler.js';
 export { StorageHandler } from './storageHandler.js';
+export { S3Handler } from './s3Handler.js';
+export { FilesystemHandler } from './filesystemHandler.js';
 
 import { OutputHandler } from './handler.js';
 import { UrlHandler } from './urlHandler.js';
 import { StorageHandler } from './storageHandler.js';
+import { S3Handler } from './s3Handler.js';
+import { FilesystemHandler } from './filesystemHandler.js';
 import { config } from '../config/index.js';
 
 /**
@@ -18,6 +22,12 @@ export function createOutputHandler(): OutputHandler {
   if (config.outputMode === 'storage') {
     console.error('[Output] Using StorageHandler (integrated mode)');
     return new StorageHandler(config.storage);
+  } else if (config.outputMode === 's3') {
+    console.error('[Output] Using S3Handler (object storage mode)');
+    return new S3Handler(config.s3);
+  } else if (config.outputMode === 'filesystem') {
+    console.error('[Output] Using FilesystemHandler (desktop mode)');
+    return new FilesystemHandler(config.filesystem);
   } else {
     console.error('[Output] Using UrlHandler (standalone mode)');
     return new UrlHandler(config.url);
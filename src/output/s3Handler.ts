@@ -0,0 +1,255 @@
+/**
+ * S3 Output Handler
+ *
+ * Object storage mode: uploads renders to an S3-compatible bucket
+ * (AWS S3, MinIO, Cloudflare R2, ...) and returns presigned GET URLs,
+ * or plain URLs under a public base URL.
+ */
+
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import {
+  S3Client,
+  HeadBucketCommand,
+  HeadObjectCommand,
+  GetObjectCommand,
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  HeadObjectCommandOutput,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import {
+  OutputHandler,
+  FileData,
+  OutputResult,
+  OutputStatus,
+  StoredFile,
+  UploadProgressCallback,
+} from './handler.js';
+import { S3OutputConfig } from '../config/index.js';
+
+// SigV4 presigned URLs cannot outlive 7 days
+const MAX_PRESIGN_SECONDS = 7 * 24 * 3600;
+
+// S3 rejects multipart parts under 5MB (except the last one)
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+export class S3Handler implements OutputHandler {
+  private config: S3OutputConfig;
+  private client: S3Client | null = null;
+  private ready = false;
+  private error: string | null = null;
+
+  constructor(config: S3OutputConfig) {
+    this.config = config;
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.config.bucket) {
+      this.error = 'No S3 bucket configured';
+      throw new Error(this.error);
+    }
+
+    this.client = new S3Client({
+      region: this.config.region,
+      endpoint: this.config.endpoint || undefined,
+      forcePathStyle: this.config.forcePathStyle,
+      // Default CRC checksums are not supported by every S3-compatible service
+      requestChecksumCalculation: 'WHEN_REQUIRED',
+      responseChecksumValidation: 'WHEN_REQUIRED',
+      credentials: this.config.accessKeyId
+        ? { accessKeyId: this.config.accessKeyId, secretAccessKey: this.config.secretAccessKey }
+        : undefined,
+    });
+
+    // Test access to the bucket
+    try {
+      await this.client.send(new HeadBucketCommand({ Bucket: this.config.bucket }));
+    } catch (err) {
+      const reason = err instanceof Error ? err.name || err.message : String(err);
+      this.error = `Cannot access bucket '${this.config.bucket}': ${reason}`;
+      throw new Error(this.error);
+    }
+
+    console.error(`[S3Handler] Connected to bucket ${this.config.bucket}${this.config.endpoint ? ` at ${this.config.endpoint}` : ''}`);
+    this.ready = true;
+  }
+
+  async store(file: FileData, onProgress?: UploadProgressCallback): Promise<OutputResult> {
+    if (!this.ready || !this.client) {
+      throw new Error('S3Handler not initialized');
+    }
+
+    const key = `${this.config.prefix}${randomUUID()}${path.extname(file.filename)}`;
+
+    // Multipart above partSize, a single PUT below
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.config.bucket,
+        Key: key,
+        Body: file.buffer,
+        ContentType: file.mimeType,
+        ContentDisposition: `inline; filename="${file.filename}"`,
+        Metadata: this.toObjectMetadata(file.metadata),
+      },
+      partSize: Math.max(MIN_PART_SIZE, this.config.partSizeBytes),
+      queueSize: 4,
+    });
+    upload.on('httpUploadProgress', ({ loaded, total }) => {
+      if (loaded !== undefined) onProgress?.(loaded / (total ?? file.buffer.length));
+    });
+    await upload.done();
+
+    return {
+      id: key,
+      ...await this.getUrl(this.client, key, this.config.urlTtlSeconds),
+      metadata: file.metadata,
+    };
+  }
+
+  async list(): Promise<StoredFile[]> {
+    const client = this.requireClient();
+    const files: StoredFile[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await client.send(new ListObjectsV2Command({
+        Bucket: this.config.bucket,
+        Prefix: this.config.prefix || undefined,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of page.Contents ?? []) {
+        if (!object.Key) continue;
+        files.push({
+          id: object.Key,
+          filename: path.basename(object.Key),
+          size: object.Size ?? 0,
+          createdAt: (object.LastModified ?? new Date(0)).toISOString(),
+        });
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return files.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async delete(id: string): Promise<void> {
+    const client = this.requireClient();
+    await this.head(client, id);
+    await client.send(new DeleteObjectCommand({ Bucket: this.config.bucket, Key: id }));
+  }
+
+  /**
+   * Objects don't expire: a new presigned URL valid for `seconds` from now is issued
+   */
+  async extendTtl(id: string, seconds: number): Promise<StoredFile> {
+    if (this.config.publicUrl) {
+      throw new Error('Public S3 URLs do not expire (S3_PUBLIC_URL is set)');
+    }
+    const client = this.requireClient();
+    const head = await this.head(client, id);
+    return { ...this.toStoredFile(id, head), ...await this.getUrl(client, id, seconds) };
+  }
+
+  /**
+   * Presigned URLs can't be revoked one by one, so the object is moved to a new key:
+   * every URL issued for the old key stops working.
+   */
+  async regenerateToken(id: string): Promise<StoredFile> {
+    const client = this.requireClient();
+    const head = await this.head(client, id);
+
+    const newKey = `${this.config.prefix}${randomUUID()}${path.extname(id)}`;
+    const copySource = `${this.config.bucket}/${id.split('/').map(encodeURIComponent).join('/')}`;
+    await client.send(new CopyObjectCommand({ Bucket: this.config.bucket, Key: newKey, CopySource: copySource }));
+    await client.send(new DeleteObjectCommand({ Bucket: this.config.bucket, Key: id }));
+
+    return { ...this.toStoredFile(newKey, head), ...await this.getUrl(client, newKey, this.config.urlTtlSeconds) };
+  }
+
+  getStatus(): OutputStatus {
+    return {
+      mode: 's3',
+      ready: this.ready,
+      details: {
+        bucket: this.config.bucket,
+        endpoint: this.config.endpoint || undefined,
+        error: this.error || undefined,
+      },
+    };
+  }
+
+  async shutdown(): Promise<void> {
+    this.client?.destroy();
+    this.client = null;
+    console.error('[S3Handler] Shutdown');
+  }
+
+  private requireClient(): S3Client {
+    if (!this.ready || !this.client) {
+      throw new Error('S3Handler not initialized');
+    }
+    return this.client;
+  }
+
+  /**
+   * Object metadata, with a "not found" error for missing or foreign keys
+   */
+  private async head(client: S3Client, key: string): Promise<HeadObjectCommandOutput> {
+    if (!key.startsWith(this.config.prefix)) {
+      throw new Error(`File '${key}' not found`);
+    }
+    try {
+      return await client.send(new HeadObjectCommand({ Bucket: this.config.bucket, Key: key }));
+    } catch (err) {
+      if ((err as { name?: string }).name === 'NotFound') {
+        throw new Error(`File '${key}' not found`);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Public URL, or a presigned GET URL valid for ttlSeconds (at most 7 days)
+   */
+  private async getUrl(client: S3Client, key: string, ttlSeconds: number): Promise<{ url: string; expiresAt?: string }> {
+    if (this.config.publicUrl) {
+      return { url: `${this.config.publicUrl.replace(/\/+$/, '')}/${key}` };
+    }
+
+    const expiresIn = Math.min(ttlSeconds, MAX_PRESIGN_SECONDS);
+    const url = await getSignedUrl(
+      client,
+      new GetObjectCommand({ Bucket: this.config.bucket, Key: key }),
+      { expiresIn }
+    );
+    return { url, expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString() };
+  }
+
+  private toStoredFile(key: string, head: HeadObjectCommandOutput): StoredFile {
+    return {
+      id: key,
+      filename: path.basename(key),
+      mimeType: head.ContentType,
+      size: head.ContentLength ?? 0,
+      createdAt: (head.LastModified ?? new Date()).toISOString(),
+      metadata: head.Metadata,
+    };
+  }
+
+  /**
+   * S3 user metadata only holds strings
+   */
+  private toObjectMetadata(metadata?: FileData['metadata']): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [key, value] of Object.entries(metadata ?? {})) {
+      if (value !== undefined && value !== null) {
+        result[key.toLowerCase()] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      }
+    }
+    return result;
+  }
+}
@@ -1,12 +1,19 @@
 /**
  * Storage Output Handler
- * 
+ *
  * Integrated mode: delegates storage to external Storage Service.
  * The Storage Service (e.g., BigFolder) handles:
  * - File storage
  * - URL generation
  * - User namespace isolation (via API key)
  * - Quota management
+ *
+ * Large renders are sent in chunks when the service exposes the
+ * storage_upload_init / storage_upload_chunk / storage_upload_complete tools,
+ * otherwise in a single storage_store call. Both return the URL as plain text,
+ * or JSON { url, id } to give the file ID used by storage_delete.
+ * A chunked upload that fails is cancelled with storage_upload_abort when available.
+ * Listing and deleting files use the optional storage_list / storage_delete tools.
  */
 
 import {
@@ -14,72 +21,99 @@ import {
   FileData,
   OutputResult,
   OutputStatus,
+  StoredFile,
+  UploadProgressCallback,
 } from './handler.js';
 import { StorageOutputConfig } from '../config/index.js';
 
+const CHUNKED_UPLOAD_TOOLS = ['storage_upload_init', 'storage_upload_chunk', 'storage_upload_complete'];
+
+const REQUEST_TIMEOUT_MS = 120_000;
+const RETRY_BASE_DELAY_MS = 500;
+
+/**
+ * A failed request to the storage service; retryable for network errors, timeouts, 429 and 5xx
+ */
+class StorageRequestError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'StorageRequestError';
+  }
+}
+
 /**
- * Simple MCP Client for calling storage_store tool
+ * Simple MCP Client for calling storage tools
  */
 class StorageClient {
   private endpoint: string;
   private apiKey: string;
+  private maxRetries: number;
 
-  constructor(endpoint: string, apiKey: string) {
+  constructor(endpoint: string, apiKey: string, maxRetries: number) {
     this.endpoint = endpoint;
     this.apiKey = apiKey;
+    this.maxRetries = maxRetries;
   }
 
-  async callTool(name: string, params: Record<string, unknown>): Promise<{ url: string }> {
-    const response = await fetch(this.endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`,
-      },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        id: Date.now(),
-        method: 'tools/call',
-        params: {
-          name,
-          arguments: params,
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Storage service error: ${response.status} ${response.statusText}`);
-    }
-
-    const result = await response.json() as {
-      result?: {
-        content?: Array<{ type: string; text?: string }>;
-      };
-      error?: { message: string };
+  /**
+   * Call a tool and return its text content, retrying transient failures
+   */
+  async callTool(name: string, params: Record<string, unknown>): Promise<string> {
+    const result = await this.request('tools/call', { name, arguments: params }) as {
+      content?: Array<{ type: string; text?: string }>;
+      isError?: boolean;
     };
 
-    if (result.error) {
-      throw new Error(`Storage service error: ${result.error.message}`);
-    }
-
-    // Extract URL from response
-    // Expected format: { content: [{ type: "text", text: "https://..." }] }
-    const content = result.result?.content;
+    // Expected format: { content: [{ type: "text", text: "..." }] }
+    const content = result?.content;
     if (!content || content.length === 0) {
       throw new Error('Invalid storage service response: no content');
     }
 
     const textContent = content.find((c) => c.type === 'text');
     if (!textContent || !textContent.text) {
-      throw new Error('Invalid storage service response: no URL');
+      throw new Error('Invalid storage service response: no text');
+    }
+
+    if (result.isError) {
+      throw new Error(`Storage service error: ${textContent.text}`);
     }
 
-    return { url: textContent.text };
+    return textContent.text;
   }
 
-  async healthCheck(): Promise<boolean> {
+  /**
+   * Names of the tools exposed by the service, or null if it is unreachable
+   */
+  async listTools(): Promise<string[] | null> {
     try {
-      const response = await fetch(this.endpoint, {
+      const result = await this.request('tools/list', {}) as { tools?: Array<{ name: string }> };
+      return (result?.tools ?? []).map((t) => t.name);
+    } catch {
+      return null;
+    }
+  }
+
+  private async request(method: string, params: Record<string, unknown>): Promise<unknown> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send(method, params);
+      } catch (err) {
+        const retryable = err instanceof StorageRequestError ? err.retryable : false;
+        if (!retryable || attempt >= this.maxRetries) throw err;
+
+        // Exponential backoff with jitter: ~0.5s, 1s, 2s, ...
+        const delay = RETRY_BASE_DELAY_MS * 2 ** attempt * (0.5 + Math.random());
+        console.error(`[StorageHandler] ${(err as Error).message}, retrying in ${Math.round(delay)}ms`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async send(method: string, params: Record<string, unknown>): Promise<unknown> {
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -88,20 +122,43 @@ class StorageClient {
         body: JSON.stringify({
           jsonrpc: '2.0',
           id: Date.now(),
-          method: 'tools/list',
-          params: {},
+          method,
+          params,
         }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
       });
-      return response.ok;
-    } catch {
-      return false;
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new StorageRequestError(`Storage service unreachable: ${reason}`, true);
+    }
+
+    if (response.status === 413) {
+      throw new StorageRequestError('Storage service rejected the request body as too large (HTTP 413)', false);
+    }
+
+    if (!response.ok) {
+      const retryable = response.status === 429 || response.status >= 500;
+      throw new StorageRequestError(`Storage service error: ${response.status} ${response.statusText}`, retryable);
     }
+
+    const result = await response.json() as {
+      result?: unknown;
+      error?: { message: string };
+    };
+
+    if (result.error) {
+      throw new StorageRequestError(`Storage service error: ${result.error.message}`, false);
+    }
+
+    return result.result;
   }
 }
 
 export class StorageHandler implements OutputHandler {
   private config: StorageOutputConfig;
   private client: StorageClient | null = null;
+  private chunkedUpload = false;
+  private tools: string[] = [];
   private ready = false;
   private error: string | null = null;
 
@@ -120,37 +177,85 @@ export class StorageHandler implements OutputHandler {
       throw new Error(this.error);
     }
 
-    this.client = new StorageClient(this.config.endpoint, this.config.apiKey);
+    this.client = new StorageClient(this.config.endpoint, this.config.apiKey, this.config.maxRetries);
 
-    // Test connection
-    const healthy = await this.client.healthCheck();
-    if (!healthy) {
+    // Test connection and detect chunked upload support
+    const tools = await this.client.listTools();
+    if (!tools) {
       this.error = 'Cannot connect to storage service';
       throw new Error(this.error);
     }
+    this.tools = tools;
+    this.chunkedUpload = CHUNKED_UPLOAD_TOOLS.every((name) => tools.includes(name));
 
-    console.log(`[StorageHandler] Connected to ${this.config.endpoint}`);
+    console.error(`[StorageHandler] Connected to ${this.config.endpoint} (${this.chunkedUpload ? 'chunked' : 'single-request'} uploads)`);
     this.ready = true;
   }
 
-  async store(file: FileData): Promise<OutputResult> {
+  async store(file: FileData, onProgress?: UploadProgressCallback): Promise<OutputResult> {
     if (!this.ready || !this.client) {
       throw new Error('StorageHandler not initialized');
     }
 
+    const size = file.buffer.length;
+    if (size > this.config.maxUploadBytes) {
+      throw new Error(
+        `Render is too large to upload: ${formatBytes(size)}, the limit is ${formatBytes(this.config.maxUploadBytes)} (STORAGE_MAX_UPLOAD_BYTES)`
+      );
+    }
+
+    if (this.chunkedUpload) {
+      return { ...parseStoredFile(await this.storeChunked(this.client, file, onProgress)), metadata: file.metadata };
+    }
+
+    // base64 in a single JSON-RPC body: keep it bounded
+    if (size > this.config.maxInlineBytes) {
+      throw new Error(
+        `Render is too large to upload: ${formatBytes(size)}, but the storage service has no chunked upload ` +
+        `(${CHUNKED_UPLOAD_TOOLS.join('/')}) and single-request uploads are limited to ` +
+        `${formatBytes(this.config.maxInlineBytes)} (STORAGE_MAX_INLINE_BYTES)`
+      );
+    }
+
     // Call storage_store tool
-    const result = await this.client.callTool('storage_store', {
+    const stored = await this.client.callTool('storage_store', {
       data: file.buffer.toString('base64'),
       mimeType: file.mimeType,
       filename: file.filename,
     });
 
     return {
-      url: result.url,
+      ...parseStoredFile(stored),
       metadata: file.metadata,
     };
   }
 
+  /**
+   * storage_list is expected to return a JSON array of files (or { files: [...] })
+   */
+  async list(): Promise<StoredFile[]> {
+    const client = this.requireTool('storage_list');
+    const text = await client.callTool('storage_list', {});
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('Invalid storage service response: storage_list did not return JSON');
+    }
+
+    const files = Array.isArray(parsed) ? parsed : (parsed as { files?: unknown[] })?.files;
+    if (!Array.isArray(files)) {
+      throw new Error('Invalid storage service response: storage_list did not return a file list');
+    }
+    return files as StoredFile[];
+  }
+
+  async delete(id: string): Promise<void> {
+    const client = this.requireTool('storage_delete');
+    await client.callTool('storage_delete', { id });
+  }
+
   getStatus(): OutputStatus {
     return {
       mode: 'storage',
@@ -164,6 +269,97 @@ export class StorageHandler implements OutputHandler {
 
   async shutdown(): Promise<void> {
     // Nothing to cleanup for storage handler
-    console.log('[StorageHandler] Shutdown');
+    console.error('[StorageHandler] Shutdown');
+  }
+
+  private requireTool(name: string): StorageClient {
+    if (!this.ready || !this.client) {
+      throw new Error('StorageHandler not initialized');
+    }
+    if (!this.tools.includes(name)) {
+      throw new Error(`The storage service at ${this.config.endpoint} does not provide ${name}`);
+    }
+    return this.client;
+  }
+
+  /**
+   * storage_upload_init returns an upload ID (plain text or JSON { uploadId, chunkSize? }),
+   * each chunk is sent with its index and byte offset, and storage_upload_complete returns the URL.
+   * Chunks are retried individually, so a transient failure doesn't restart the upload.
+   */
+  private async storeChunked(client: StorageClient, file: FileData, onProgress?: UploadProgressCallback): Promise<string> {
+    const size = file.buffer.length;
+    let chunkSize = this.config.chunkSizeBytes;
+
+    const init = await client.callTool('storage_upload_init', {
+      filename: file.filename,
+      mimeType: file.mimeType,
+      size,
+      chunkSize,
+    });
+
+    let uploadId = init.trim();
+    try {
+      const parsed = JSON.parse(init) as { uploadId?: string; chunkSize?: number };
+      if (parsed.uploadId) uploadId = parsed.uploadId;
+      // The service may impose its own chunk size
+      if (parsed.chunkSize && parsed.chunkSize > 0) chunkSize = parsed.chunkSize;
+    } catch {
+      // Plain-text upload ID
+    }
+
+    const chunkCount = Math.max(1, Math.ceil(size / chunkSize));
+    try {
+      for (let index = 0; index < chunkCount; index++) {
+        const offset = index * chunkSize;
+        await client.callTool('storage_upload_chunk', {
+          uploadId,
+          index,
+          offset,
+          data: file.buffer.subarray(offset, offset + chunkSize).toString('base64'),
+        });
+        onProgress?.((index + 1) / chunkCount);
+      }
+
+      return await client.callTool('storage_upload_complete', {
+        uploadId,
+        chunkCount,
+        size,
+      });
+    } catch (err) {
+      await this.abortUpload(client, uploadId);
+      throw err;
+    }
   }
+
+  /**
+   * Release the chunks of a failed upload on the service, when it supports it
+   */
+  private async abortUpload(client: StorageClient, uploadId: string): Promise<void> {
+    if (!this.tools.includes('storage_upload_abort')) return;
+    try {
+      await client.callTool('storage_upload_abort', { uploadId });
+    } catch (err) {
+      console.error(`[StorageHandler] Could not abort upload ${uploadId}:`, (err as Error).message);
+    }
+  }
+}
+
+/**
+ * storage_store / storage_upload_complete reply: the URL, or JSON { url, id }
+ */
+function parseStoredFile(text: string): { url: string; id?: string } {
+  try {
+    const parsed = JSON.parse(text) as { url?: unknown; id?: unknown };
+    if (typeof parsed?.url === 'string') {
+      return { url: parsed.url, ...(typeof parsed.id === 'string' && { id: parsed.id }) };
+    }
+  } catch {
+    // Plain-text URL
+  }
+  return { url: text.trim() };
+}
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
@@ -2,6 +2,7 @@
  * URL Output Handler
  * 
  * Standalone mode: serves files locally via integrated HTTP server.
+ * File entries are persisted to an index in serveDir so URLs survive restarts.
  */
 
 import express, { Express, Request, Response } from 'express';
@@ -14,8 +15,10 @@ import {
   FileData,
   OutputResult,
   OutputStatus,
+  StoredFile,
 } from './handler.js';
 import { UrlOutputConfig } from '../config/index.js';
+import { writeJsonAtomic } from '../utils/index.js';
 
 interface FileEntry {
   id: string;
@@ -30,6 +33,16 @@ interface FileEntry {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * On-disk index format. The file path is derived from serveDir on load.
+ */
+interface FileIndex {
+  version: 1;
+  files: Array<Omit<FileEntry, 'filepath'>>;
+}
+
+const INDEX_FILENAME = 'index.json';
+
 export class UrlHandler implements OutputHandler {
   private config: UrlOutputConfig;
   private app: Express;
@@ -37,9 +50,15 @@ export class UrlHandler implements OutputHandler {
   private files: Map<string, FileEntry> = new Map();
   private cleanupInterval: NodeJS.Timeout | null = null;
   private ready = false;
+  private indexPath: string;
+  /** Serializes index writes */
+  private indexWrite: Promise<void> = Promise.resolve();
+  /** Set when only access times changed, flushed by the cleanup timer */
+  private indexDirty = false;
 
   constructor(config: UrlOutputConfig) {
     this.config = config;
+    this.indexPath = path.join(config.serveDir, INDEX_FILENAME);
     this.app = express();
     this.setupRoutes();
   }
@@ -49,51 +68,61 @@ export class UrlHandler implements OutputHandler {
       res.json({ status: 'ok', mode: 'url' });
     });
 
-    this.app.get('/files/:filename', (req: Request, res: Response) => {
-      const { filename } = req.params;
-      const { token } = req.query;
+    // Express would route HEAD to the GET handler anyway; registered explicitly for clarity
+    this.app.head('/files/:filename', (req, res) => this.serveFile(req, res));
+    this.app.get('/files/:filename', (req, res) => this.serveFile(req, res));
 
-      const entry = Array.from(this.files.values()).find(
-        (f) => f.filename === filename
-      );
+    this.app.get('/status', (_req: Request, res: Response) => {
+      res.json(this.getStatus());
+    });
+  }
 
-      if (!entry) {
-        res.status(404).json({ error: 'File not found' });
-        return;
-      }
+  /**
+   * Serve a stored file. Range requests (206), conditional requests (ETag,
+   * Last-Modified) and HEAD are handled by sendFile; caching is bounded by the entry's expiry.
+   */
+  private serveFile(req: Request, res: Response): void {
+    const { filename } = req.params;
+    const { token, download } = req.query;
 
-      if (entry.token !== token) {
-        res.status(403).json({ error: 'Invalid token' });
-        return;
-      }
+    // Files are stored as <id><ext>, so the entry is found without scanning
+    const entry = this.files.get(path.parse(filename).name);
 
-      if (Date.now() > entry.expiresAt) {
-        res.status(410).json({ error: 'File expired' });
-        return;
-      }
+    if (!entry || entry.filename !== filename) {
+      res.status(404).json({ error: 'File not found' });
+      return;
+    }
 
-      entry.lastAccessedAt = Date.now();
-      res.setHeader('Content-Type', entry.mimeType);
-      res.setHeader('Content-Disposition', `inline; filename="${entry.filename}"`);
-      res.sendFile(entry.filepath);
-    });
+    if (entry.token !== token) {
+      res.status(403).json({ error: 'Invalid token' });
+      return;
+    }
 
-    this.app.get('/status', (_req: Request, res: Response) => {
-      res.json(this.getStatus());
+    const remainingSeconds = Math.floor((entry.expiresAt - Date.now()) / 1000);
+    if (remainingSeconds <= 0) {
+      res.status(410).json({ error: 'File expired' });
+      return;
+    }
+
+    entry.lastAccessedAt = Date.now();
+    this.indexDirty = true;
+
+    const disposition = download === '1' ? 'attachment' : 'inline';
+    res.setHeader('Content-Type', entry.mimeType);
+    res.setHeader('Content-Disposition', `${disposition}; filename="${entry.filename}"`);
+    // Token URLs are per-user: allow private caches only, never beyond expiry
+    res.setHeader('Cache-Control', `private, max-age=${remainingSeconds}, immutable`);
+
+    res.sendFile(entry.filepath, { lastModified: true, etag: true, acceptRanges: true }, (err) => {
+      if (err && !res.headersSent) {
+        res.status(404).json({ error: 'File not found' });
+      }
     });
   }
 
   async initialize(): Promise<void> {
     await fs.mkdir(this.config.serveDir, { recursive: true });
-
-    try {
-      const existingFiles = await fs.readdir(this.config.serveDir);
-      for (const file of existingFiles) {
-        await fs.unlink(path.join(this.config.serveDir, file));
-      }
-    } catch {
-      // Ignore
-    }
+    await this.loadIndex();
 
     return new Promise((resolve, reject) => {
       try {
@@ -102,7 +131,9 @@ export class UrlHandler implements OutputHandler {
           this.ready = true;
 
           this.cleanupInterval = setInterval(() => {
-            this.cleanup().catch(console.error);
+            this.cleanup()
+              .then(() => this.indexDirty ? this.saveIndex() : undefined)
+              .catch(console.error);
           }, 5 * 60 * 1000);
 
           resolve();
@@ -124,8 +155,7 @@ export class UrlHandler implements OutputHandler {
 
     const id = randomUUID();
     const token = randomBytes(16).toString('hex');
-    const ext = this.getExtension(file.mimeType);
-    const filename = `${id}${ext}`;
+    const filename = `${id}${path.extname(file.filename)}`;
     const filepath = path.join(this.config.serveDir, filename);
 
     await fs.writeFile(filepath, file.buffer);
@@ -145,17 +175,43 @@ export class UrlHandler implements OutputHandler {
     };
 
     this.files.set(id, entry);
-
-    const baseUrl = this.config.baseUrl || `http://localhost:${this.config.port}`;
-    const url = `${baseUrl}/files/${filename}?token=${token}`;
+    await this.saveIndex();
 
     return {
-      url,
+      id,
+      url: this.getUrl(entry),
       metadata: file.metadata,
       expiresAt: new Date(entry.expiresAt).toISOString(),
     };
   }
 
+  async list(): Promise<StoredFile[]> {
+    await this.cleanup();
+    return Array.from(this.files.values())
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map((entry) => this.toStoredFile(entry));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.getEntry(id);
+    await this.removeFile(id);
+    await this.saveIndex();
+  }
+
+  async extendTtl(id: string, seconds: number): Promise<StoredFile> {
+    const entry = this.getEntry(id);
+    entry.expiresAt += seconds * 1000;
+    await this.saveIndex();
+    return this.toStoredFile(entry);
+  }
+
+  async regenerateToken(id: string): Promise<StoredFile> {
+    const entry = this.getEntry(id);
+    entry.token = randomBytes(16).toString('hex');
+    await this.saveIndex();
+    return this.toStoredFile(entry);
+  }
+
   getStatus(): OutputStatus {
     const diskUsageBytes = Array.from(this.files.values()).reduce(
       (sum, f) => sum + f.size,
@@ -179,6 +235,10 @@ export class UrlHandler implements OutputHandler {
       this.cleanupInterval = null;
     }
 
+    if (this.indexDirty) {
+      await this.saveIndex().catch(console.error);
+    }
+
     if (this.server) {
       return new Promise((resolve) => {
         this.server!.close(() => {
@@ -189,6 +249,35 @@ export class UrlHandler implements OutputHandler {
     }
   }
 
+  /**
+   * Live entry by ID; expired files are treated as gone
+   */
+  private getEntry(id: string): FileEntry {
+    const entry = this.files.get(id);
+    if (!entry || Date.now() > entry.expiresAt) {
+      throw new Error(`File '${id}' not found`);
+    }
+    return entry;
+  }
+
+  private getUrl(entry: FileEntry): string {
+    const baseUrl = this.config.baseUrl || `http://localhost:${this.config.port}`;
+    return `${baseUrl}/files/${entry.filename}?token=${entry.token}`;
+  }
+
+  private toStoredFile(entry: FileEntry): StoredFile {
+    return {
+      id: entry.id,
+      filename: entry.filename,
+      url: this.getUrl(entry),
+      mimeType: entry.mimeType,
+      size: entry.size,
+      createdAt: new Date(entry.createdAt).toISOString(),
+      expiresAt: new Date(entry.expiresAt).toISOString(),
+      metadata: entry.metadata,
+    };
+  }
+
   private async enforceQuotas(incomingSize: number): Promise<void> {
     await this.cleanup();
 
@@ -234,6 +323,65 @@ export class UrlHandler implements OutputHandler {
     for (const id of expired) {
       await this.removeFile(id);
     }
+
+    if (expired.length > 0) {
+      await this.saveIndex();
+    }
+  }
+
+  /**
+   * Reload unexpired entries from the index, then delete expired files
+   * and files the index doesn't know about (orphans from a crash or an older version).
+   */
+  private async loadIndex(): Promise<void> {
+    let index: FileIndex = { version: 1, files: [] };
+    try {
+      index = JSON.parse(await fs.readFile(this.indexPath, 'utf-8')) as FileIndex;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('[UrlHandler] Unreadable file index, starting empty:', err);
+      }
+    }
+
+    const now = Date.now();
+    for (const stored of index.files ?? []) {
+      const filepath = path.join(this.config.serveDir, stored.filename);
+      if (now > stored.expiresAt) continue;
+
+      try {
+        const stat = await fs.stat(filepath);
+        this.files.set(stored.id, { ...stored, filepath, size: stat.size });
+      } catch {
+        // File vanished, drop the entry
+      }
+    }
+
+    const known = new Set(Array.from(this.files.values(), (f) => f.filename));
+    let removed = 0;
+    for (const file of await fs.readdir(this.config.serveDir)) {
+      if (file === INDEX_FILENAME || known.has(file)) continue;
+      await fs.rm(path.join(this.config.serveDir, file), { recursive: true, force: true }).catch(() => {});
+      removed++;
+    }
+
+    await this.saveIndex();
+    console.error(`[UrlHandler] ${this.files.size} files restored, ${removed} expired or orphaned files removed`);
+  }
+
+  /**
+   * Write the index atomically (temp file + rename), one write at a time
+   */
+  private saveIndex(): Promise<void> {
+    this.indexDirty = false;
+    const index: FileIndex = {
+      version: 1,
+      files: Array.from(this.files.values(), ({ filepath: _filepath, ...stored }) => stored),
+    };
+
+    this.indexWrite = this.indexWrite.catch(() => {}).then(async () => {
+      await writeJsonAtomic(this.indexPath, index);
+    });
+    return this.indexWrite;
   }
 
   private findLRU(): FileEntry | null {
@@ -258,15 +406,4 @@ export class UrlHandler implements OutputHandler {
 
     this.files.delete(id);
   }
-
-  private getExtension(mimeType: string): string {
-    const map: Record<string, string> = {
-      'video/mp4': '.mp4',
-      'video/webm': '.webm',
-      'image/gif': '.gif',
-      'image/png': '.png',
-      'image/jpeg': '.jpg',
-    };
-    return map[mimeType] || '.bin';
-  }
 }
@@ -0,0 +1,5 @@
+/**
+ * Progress Module
+ */
+
+export * from './reporter.js';
@@ -0,0 +1,81 @@
+/**
+ * Progress Reporter
+ *
+ * Maps render stages to MCP `notifications/progress` for a single tool call.
+ * Progress is reported on a 0-100 scale: bundling, then rendering/encoding, then upload.
+ */
+
+import { RenderProgress } from '../render/index.js';
+
+export type ProgressSender = (update: {
+  progress: number;
+  total: number;
+  message: string;
+}) => Promise<void>;
+
+const TOTAL = 100;
+
+// Share of the 0-100 scale allotted to each stage
+const STAGE_RANGES = {
+  bundling: [0, 10],
+  rendering: [10, 90],
+  uploading: [90, 100],
+} as const;
+
+export class ProgressReporter {
+  private send: ProgressSender | null;
+  private lastProgress = -1;
+
+  /**
+   * @param send Notification sender, or null when the client sent no progressToken
+   */
+  constructor(send: ProgressSender | null) {
+    this.send = send;
+  }
+
+  /**
+   * Render progress callback, suitable for RenderOptions.onProgress
+   */
+  onRender = (progress: RenderProgress): void => {
+    if (progress.stage === 'bundling') {
+      this.report('bundling', progress.progress, `Bundling template (${Math.round(progress.progress * 100)}%)`);
+      return;
+    }
+
+    this.report(
+      'rendering',
+      progress.progress,
+      `Rendered ${progress.renderedFrames}/${progress.totalFrames} frames, encoded ${progress.encodedFrames}/${progress.totalFrames}`
+    );
+  };
+
+  uploading(): void {
+    this.report('uploading', 0, 'Uploading output');
+  }
+
+  /**
+   * Upload progress callback, suitable for OutputHandler.store
+   */
+  onUpload = (fraction: number): void => {
+    this.report('uploading', fraction, `Uploading output (${Math.round(fraction * 100)}%)`);
+  };
+
+  done(): void {
+    this.report('uploading', 1, 'Done');
+  }
+
+  private report(stage: keyof typeof STAGE_RANGES, fraction: number, message: string): void {
+    if (!this.send) return;
+
+    const [start, end] = STAGE_RANGES[stage];
+    const progress = Math.round(start + (end - start) * Math.min(1, Math.max(0, fraction)));
+
+    // Progress must increase; skip duplicates to avoid one notification per frame
+    if (progress <= this.lastProgress) return;
+    this.lastProgress = progress;
+
+    this.send({ progress, total: TOTAL, message }).catch((err) => {
+      console.error('[Progress] Failed to send notification:', err);
+    });
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Browser Pool
+ *
+ * Keeps one headless Chromium open and shares it between renders, instead of
+ * letting every selectComposition / renderStill / renderMedia call launch its own.
+ * The browser is checked before use, replaced when it has crashed, and closed
+ * once no render has used it for the idle period.
+ */
+
+import type { HeadlessBrowser } from '@remotion/renderer';
+import { RenderConfig } from '../config/index.js';
+
+const log = (...args: unknown[]) => console.error('[BrowserPool]', ...args);
+
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+export interface PooledBrowser {
+  browser: HeadlessBrowser;
+  /** Hand the browser back; a browser that crashed meanwhile is discarded */
+  release: () => Promise<void>;
+}
+
+export interface BrowserPoolStatus {
+  open: boolean;
+  /** Renders currently using the browser */
+  users: number;
+  idleSeconds: number;
+}
+
+export class BrowserPool {
+  private renderer: typeof import('@remotion/renderer');
+  private idleSeconds: number;
+  private logLevel: RenderConfig['logLevel'];
+  private browser: HeadlessBrowser | null = null;
+  private opening: Promise<HeadlessBrowser> | null = null;
+  private users = 0;
+  private idleTimer: NodeJS.Timeout | null = null;
+
+  constructor(renderer: typeof import('@remotion/renderer'), idleSeconds: number, logLevel: RenderConfig['logLevel']) {
+    this.renderer = renderer;
+    this.idleSeconds = idleSeconds;
+    this.logLevel = logLevel;
+  }
+
+  /**
+   * The shared browser, started on first use or restarted if it stopped responding
+   */
+  async acquire(): Promise<PooledBrowser> {
+    this.users++;
+    this.clearIdleTimer();
+
+    let browser: HeadlessBrowser;
+    try {
+      browser = await this.getBrowser();
+    } catch (err) {
+      this.releaseUser();
+      throw err;
+    }
+
+    let released = false;
+    const release = async () => {
+      if (released) return;
+      released = true;
+      if (this.browser === browser && !(await this.isHealthy(browser))) {
+        log('Browser crashed during render, it will be restarted');
+        await this.discard(browser);
+      }
+      this.releaseUser();
+    };
+
+    return { browser, release };
+  }
+
+  getStatus(): BrowserPoolStatus {
+    return { open: this.browser !== null, users: this.users, idleSeconds: this.idleSeconds };
+  }
+
+  async shutdown(): Promise<void> {
+    this.clearIdleTimer();
+    const browser = this.browser ?? await this.opening?.catch(() => null);
+    if (browser) await this.discard(browser);
+  }
+
+  private async getBrowser(): Promise<HeadlessBrowser> {
+    if (this.browser) {
+      if (await this.isHealthy(this.browser)) return this.browser;
+      log('Browser is not responding, restarting');
+      await this.discard(this.browser);
+    }
+
+    // Concurrent renders wait for the same launch
+    if (!this.opening) {
+      this.opening = this.renderer.openBrowser('chrome', { logLevel: this.logLevel })
+        .then((browser) => {
+          this.browser = browser;
+          log('Browser started');
+          return browser;
+        })
+        .finally(() => {
+          this.opening = null;
+        });
+    }
+    return this.opening;
+  }
+
+  /**
+   * A cheap DevTools round trip: fails or times out once Chromium is gone
+   */
+  private async isHealthy(browser: HeadlessBrowser): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Health check timed out')), HEALTH_CHECK_TIMEOUT_MS);
+    });
+
+    try {
+      await Promise.race([browser.connection.send('Target.setDiscoverTargets', { discover: true }), timeout]);
+      return true;
+    } catch {
+      return false;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async discard(browser: HeadlessBrowser): Promise<void> {
+    if (this.browser === browser) this.browser = null;
+    await browser.close({ silent: true }).catch(() => {});
+  }
+
+  private releaseUser(): void {
+    this.users--;
+    if (this.users === 0) this.scheduleIdleClose();
+  }
+
+  private scheduleIdleClose(): void {
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      if (this.browser && this.users === 0) {
+        log(`Closing browser after ${this.idleSeconds}s idle`);
+        void this.discard(this.browser);
+      }
+    }, this.idleSeconds * 1000);
+    // An idle browser shouldn't keep the process alive
+    this.idleTimer.unref();
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
@@ -2,27 +2,77 @@
  * Dynamic Remotion Bundler
  * 
  * Creates and bundles Remotion projects on-the-fly from template code.
+ *
+ * Bundles are cached on disk, keyed by a SHA-256 of their sources, and listed in a
+ * manifest so they survive restarts. The least recently used bundles are evicted
+ * beyond the configured count or total size; bundles in use are never removed.
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { randomUUID } from 'crypto';
+import { createHash, randomUUID } from 'crypto';
+import { listFiles, writeJsonAtomic } from '../utils/index.js';
 
 // Suppress console.log to stderr for MCP compatibility
 const log = (...args: unknown[]) => console.error('[Bundler]', ...args);
 
-interface BundleResult {
+export interface BundleResult {
   bundlePath: string;
   cleanup: () => Promise<void>;
 }
 
+export interface BundleCacheOptions {
+  maxBytes: number;
+  maxEntries: number;
+}
+
+export interface BundleCacheStatus {
+  entries: number;
+  sizeBytes: number;
+  maxBytes: number;
+  maxEntries: number;
+}
+
+interface CacheEntry {
+  /** SHA-256 of the bundle sources */
+  key: string;
+  templateName: string;
+  /** Directory name inside the cache directory */
+  dir: string;
+  sizeBytes: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+interface CacheManifest {
+  version: 1;
+  bundles: CacheEntry[];
+}
+
+const MANIFEST_FILENAME = 'manifest.json';
+
+// Bump when the generated project structure changes, to invalidate older bundles
+const PROJECT_FORMAT_VERSION = '1';
+
 export class DynamicBundler {
   private cacheDir: string;
-  private bundleCache: Map<string, string> = new Map();
+  private options: BundleCacheOptions;
+  private entries: Map<string, CacheEntry> = new Map();
+  /** Bundles being built, so concurrent requests for the same sources share one webpack run */
+  private inflight: Map<string, Promise<CacheEntry>> = new Map();
+  /** Renders currently using each bundle */
+  private inUse: Map<string, number> = new Map();
+  /** Source hashes of entry point projects, computed once per process */
+  private entryKeys: Map<string, string> = new Map();
+  private manifestPath: string;
+  /** Serializes manifest writes */
+  private manifestWrite: Promise<void> = Promise.resolve();
   private bundler: typeof import('@remotion/bundler') | null = null;
 
-  constructor(cacheDir: string) {
+  constructor(cacheDir: string, options: BundleCacheOptions) {
     this.cacheDir = cacheDir;
+    this.options = options;
+    this.manifestPath = path.join(cacheDir, MANIFEST_FILENAME);
   }
 
   async initialize(): Promise<void> {
@@ -34,66 +84,278 @@ export class DynamicBundler {
     } catch (err) {
       log('Bundler not available:', err);
     }
+
+    await this.loadManifest();
   }
 
-  async bundle(templateCode: string, templateName: string): Promise<BundleResult> {
-    // Check cache first
-    const cacheKey = `${templateName}-${this.hashCode(templateCode)}`;
-    const cachedPath = this.bundleCache.get(cacheKey);
-    
-    if (cachedPath) {
+  async bundle(
+    templateCode: string,
+    templateName: string,
+    onProgress?: (progress: number) => void
+  ): Promise<BundleResult> {
+    const key = sha256(['custom', PROJECT_FORMAT_VERSION, templateCode]);
+
+    return this.acquire(key, templateName, async (outDir, bundler) => {
+      const projectDir = path.join(this.cacheDir, `project-${randomUUID()}`);
       try {
-        await fs.access(cachedPath);
+        // Create project structure
+        await this.createProjectStructure(projectDir, templateCode);
+
+        // The bundle is self-contained, the project is only needed while bundling
+        await bundler.bundle({
+          entryPoint: path.join(projectDir, 'src', 'index.ts'),
+          outDir,
+          onProgress: (progress) => {
+            // Forward to caller only - don't pollute stdout
+            onProgress?.(progress / 100);
+          },
+        });
+      } finally {
+        await fs.rm(projectDir, { recursive: true, force: true }).catch(() => {});
+      }
+    });
+  }
+
+  /**
+   * Bundle an existing Remotion project from its entry point (e.g. the universal template).
+   * Files in publicDir are copied into the bundle and served through staticFile().
+   */
+  async bundleEntry(
+    entryPoint: string,
+    templateName: string,
+    onProgress?: (progress: number) => void,
+    publicDir?: string
+  ): Promise<BundleResult> {
+    const key = await this.getEntryKey(entryPoint, publicDir);
+
+    return this.acquire(key, templateName, async (outDir, bundler) => {
+      await bundler.bundle({
+        entryPoint,
+        outDir,
+        publicDir,
+        onProgress: (progress) => {
+          onProgress?.(progress / 100);
+        },
+      });
+    });
+  }
+
+  getStatus(): BundleCacheStatus {
+    let sizeBytes = 0;
+    for (const entry of this.entries.values()) sizeBytes += entry.sizeBytes;
+    return { entries: this.entries.size, sizeBytes, ...this.options };
+  }
+
+  /**
+   * Delete every cached bundle that no render is currently using
+   */
+  async clear(): Promise<{ removed: number; freedBytes: number; inUse: number }> {
+    let removed = 0;
+    let freedBytes = 0;
+    let inUse = 0;
+
+    for (const entry of Array.from(this.entries.values())) {
+      if (this.isBusy(entry.key)) {
+        inUse++;
+        continue;
+      }
+      await this.remove(entry);
+      removed++;
+      freedBytes += entry.sizeBytes;
+    }
+
+    await this.saveManifest();
+    log(`Cache cleared: ${removed} bundles removed, ${inUse} in use kept`);
+    return { removed, freedBytes, inUse };
+  }
+
+  /**
+   * Get the bundle for `key` from the cache, or build it once even when requested
+   * concurrently. The bundle is protected from eviction until cleanup() is called.
+   */
+  private async acquire(
+    key: string,
+    templateName: string,
+    build: (outDir: string, bundler: typeof import('@remotion/bundler')) => Promise<void>
+  ): Promise<BundleResult> {
+    this.inUse.set(key, (this.inUse.get(key) ?? 0) + 1);
+    let released = false;
+    const release = async () => {
+      if (released) return;
+      released = true;
+      const count = (this.inUse.get(key) ?? 1) - 1;
+      if (count > 0) this.inUse.set(key, count);
+      else this.inUse.delete(key);
+    };
+
+    try {
+      let entry = this.entries.get(key);
+      if (entry && !(await exists(path.join(this.cacheDir, entry.dir)))) {
+        this.entries.delete(key);
+        entry = undefined;
+      }
+
+      if (entry) {
         log(`Using cached bundle for ${templateName}`);
-        return {
-          bundlePath: cachedPath,
-          cleanup: async () => {}, // Don't cleanup cached bundles
-        };
-      } catch {
-        this.bundleCache.delete(cacheKey);
+      } else {
+        let pending = this.inflight.get(key);
+        if (pending) {
+          log(`Waiting for the ${templateName} bundle already in progress`);
+        } else {
+          pending = this.build(key, templateName, build).finally(() => this.inflight.delete(key));
+          this.inflight.set(key, pending);
+        }
+        entry = await pending;
       }
+
+      entry.lastUsedAt = Date.now();
+      await this.evict();
+      await this.saveManifest();
+
+      return { bundlePath: path.join(this.cacheDir, entry.dir), cleanup: release };
+    } catch (err) {
+      await release();
+      throw err;
     }
+  }
 
+  private async build(
+    key: string,
+    templateName: string,
+    build: (outDir: string, bundler: typeof import('@remotion/bundler')) => Promise<void>
+  ): Promise<CacheEntry> {
     if (!this.bundler) {
       throw new Error('Bundler not available');
     }
 
-    const projectDir = path.join(this.cacheDir, `project-${randomUUID()}`);
-    const bundleDir = path.join(this.cacheDir, `bundle-${cacheKey}`);
+    const dir = `bundle-${key}`;
+    const outDir = path.join(this.cacheDir, dir);
+    // Leftovers of an interrupted build
+    await fs.rm(outDir, { recursive: true, force: true });
 
+    log(`Bundling ${templateName}...`);
     try {
-      // Create project structure
-      await this.createProjectStructure(projectDir, templateCode);
-
-      log(`Bundling ${templateName}...`);
-      
-      // Bundle the project
-      const bundlePath = await this.bundler.bundle({
-        entryPoint: path.join(projectDir, 'src', 'index.ts'),
-        outDir: bundleDir,
-        onProgress: (progress) => {
-          // Silent progress - don't pollute stdout
-        },
-      });
+      await build(outDir, this.bundler);
+    } catch (err) {
+      // Cleanup on error
+      await fs.rm(outDir, { recursive: true, force: true }).catch(() => {});
+      throw err;
+    }
 
-      // Cache the result
-      this.bundleCache.set(cacheKey, bundlePath);
+    const now = Date.now();
+    const entry: CacheEntry = {
+      key,
+      templateName,
+      dir,
+      sizeBytes: await directorySize(outDir),
+      createdAt: now,
+      lastUsedAt: now,
+    };
+    this.entries.set(key, entry);
+    log(`Bundle complete: ${outDir}`);
+    return entry;
+  }
 
-      log(`Bundle complete: ${bundlePath}`);
+  /**
+   * Remove least recently used bundles until the cache fits its limits
+   */
+  private async evict(): Promise<void> {
+    const candidates = Array.from(this.entries.values())
+      .sort((a, b) => a.lastUsedAt - b.lastUsedAt);
 
-      return {
-        bundlePath,
-        cleanup: async () => {
-          // Cleanup project dir but keep bundle for cache
-          await fs.rm(projectDir, { recursive: true, force: true }).catch(() => {});
-        },
-      };
+    let { entries: count, sizeBytes } = this.getStatus();
+    for (const entry of candidates) {
+      if (count <= this.options.maxEntries && sizeBytes <= this.options.maxBytes) break;
+      if (this.isBusy(entry.key)) continue;
+
+      log(`Evicting bundle for ${entry.templateName} (${entry.key.slice(0, 12)})`);
+      await this.remove(entry);
+      count--;
+      sizeBytes -= entry.sizeBytes;
+    }
+  }
+
+  private isBusy(key: string): boolean {
+    return this.inUse.has(key) || this.inflight.has(key);
+  }
+
+  private async remove(entry: CacheEntry): Promise<void> {
+    this.entries.delete(entry.key);
+    await fs.rm(path.join(this.cacheDir, entry.dir), { recursive: true, force: true }).catch(() => {});
+  }
+
+  /**
+   * Hash of the entry point's directory contents. Public files are hashed by
+   * name, size and modification time, as they can be large media files.
+   */
+  private async getEntryKey(entryPoint: string, publicDir?: string): Promise<string> {
+    const id = `${entryPoint}\0${publicDir ?? ''}`;
+    const cached = this.entryKeys.get(id);
+    if (cached) return cached;
+
+    const hash = createHash('sha256').update(`entry\0${PROJECT_FORMAT_VERSION}\0`);
+    const srcDir = path.dirname(entryPoint);
+    for (const file of await listFiles(srcDir)) {
+      hash.update(`${path.relative(srcDir, file)}\0`).update(await fs.readFile(file));
+    }
+    if (publicDir) {
+      for (const file of await listFiles(publicDir).catch(() => [])) {
+        const stat = await fs.stat(file);
+        hash.update(`public/${path.relative(publicDir, file)}\0${stat.size}\0${stat.mtimeMs}\0`);
+      }
+    }
+
+    const key = hash.digest('hex');
+    this.entryKeys.set(id, key);
+    return key;
+  }
+
+  /**
+   * Reload bundles listed in the manifest, then delete directories it doesn't know
+   * about (interrupted builds, projects, bundles from an older version).
+   */
+  private async loadManifest(): Promise<void> {
+    let manifest: CacheManifest = { version: 1, bundles: [] };
+    try {
+      manifest = JSON.parse(await fs.readFile(this.manifestPath, 'utf-8')) as CacheManifest;
     } catch (err) {
-      // Cleanup on error
-      await fs.rm(projectDir, { recursive: true, force: true }).catch(() => {});
-      await fs.rm(bundleDir, { recursive: true, force: true }).catch(() => {});
-      throw err;
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log('Unreadable cache manifest, starting empty:', err);
+      }
+    }
+
+    for (const entry of manifest.bundles ?? []) {
+      if (await exists(path.join(this.cacheDir, entry.dir))) {
+        this.entries.set(entry.key, entry);
+      }
+    }
+
+    const known = new Set(Array.from(this.entries.values(), (e) => e.dir));
+    let removed = 0;
+    for (const file of await fs.readdir(this.cacheDir)) {
+      if (file === MANIFEST_FILENAME || known.has(file)) continue;
+      await fs.rm(path.join(this.cacheDir, file), { recursive: true, force: true }).catch(() => {});
+      removed++;
     }
+
+    await this.evict();
+    await this.saveManifest();
+    log(`${this.entries.size} cached bundles restored, ${removed} stale entries removed`);
+  }
+
+  /**
+   * Write the manifest atomically (temp file + rename), one write at a time
+   */
+  private saveManifest(): Promise<void> {
+    const manifest: CacheManifest = {
+      version: 1,
+      bundles: Array.from(this.entries.values()),
+    };
+
+    this.manifestWrite = this.manifestWrite.catch(() => {}).then(async () => {
+      await writeJsonAtomic(this.manifestPath, manifest);
+    });
+    return this.manifestWrite;
   }
 
   private async createProjectStructure(projectDir: string, templateCode: string): Promise<void> {
@@ -185,18 +447,25 @@ registerRoot(RemotionRoot);
     );
   }
 
-  private hashCode(str: string): string {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash).toString(16);
+}
+
+function sha256(parts: string[]): string {
+  return createHash('sha256').update(parts.join('\0')).digest('hex');
+}
+
+async function exists(filepath: string): Promise<boolean> {
+  try {
+    await fs.access(filepath);
+    return true;
+  } catch {
+    return false;
   }
+}
 
-  async cleanup(): Promise<void> {
-    // Optionally cleanup all cached bundles
-    // await fs.rm(this.cacheDir, { recursive: true, force: true }).catch(() => {});
+async function directorySize(dir: string): Promise<number> {
+  let size = 0;
+  for (const file of await listFiles(dir)) {
+    size += (await fs.stat(file)).size;
   }
+  return size;
 }
@@ -0,0 +1,235 @@
+/**
+ * Video encoding settings: which codecs each container accepts, their
+ * quality ranges, and the defaults applied when a setting is omitted.
+ *
+ * Mirrors the combinations @remotion/renderer accepts, so invalid settings are
+ * reported before bundling. AV1 is not offered: the renderer cannot encode it.
+ *
+ * Transparent renders need an alpha channel: ProRes 4444 in mov, or VP8/VP9
+ * with yuva420p in webm.
+ */
+
+export const CONTAINERS = ['mp4', 'webm', 'gif', 'mov'] as const;
+export const VIDEO_CODECS = ['h264', 'h265', 'vp8', 'vp9', 'prores'] as const;
+export const PIXEL_FORMATS = [
+  'yuv420p',
+  'yuva420p',
+  'yuv422p',
+  'yuv444p',
+  'yuv420p10le',
+  'yuv422p10le',
+  'yuv444p10le',
+  'yuva444p10le',
+] as const;
+export const X264_PRESETS = [
+  'ultrafast',
+  'superfast',
+  'veryfast',
+  'faster',
+  'fast',
+  'medium',
+  'slow',
+  'slower',
+  'veryslow',
+  'placebo',
+] as const;
+
+export type Container = typeof CONTAINERS[number];
+export type VideoCodec = typeof VIDEO_CODECS[number];
+export type PixelFormat = typeof PIXEL_FORMATS[number];
+export type X264Preset = typeof X264_PRESETS[number];
+
+/** Codec passed to renderMedia: gif output uses the gif codec */
+export type RemotionCodec = VideoCodec | 'gif';
+
+/**
+ * Codecs each container can hold; the first one is the default
+ */
+const CONTAINER_CODECS: Record<Container, RemotionCodec[]> = {
+  mp4: ['h264', 'h265'],
+  webm: ['vp8', 'vp9'],
+  mov: ['prores', 'h264'],
+  gif: ['gif'],
+};
+
+const AUDIO_CODECS: Record<Container, 'aac' | 'opus' | null> = {
+  mp4: 'aac',
+  webm: 'opus',
+  mov: 'aac',
+  gif: null,
+};
+
+const MIME_TYPES: Record<Container, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  gif: 'image/gif',
+};
+
+/**
+ * Valid CRF range and the renderer's default, for codecs that support CRF
+ */
+const CRF: Partial<Record<RemotionCodec, { min: number; max: number; default: number }>> = {
+  h264: { min: 1, max: 51, default: 18 },
+  h265: { min: 0, max: 51, default: 23 },
+  vp8: { min: 4, max: 63, default: 9 },
+  vp9: { min: 0, max: 63, default: 28 },
+};
+
+/**
+ * Pixel formats each encoder accepts; the first one is the default.
+ * ProRes (prores_ks) only encodes 10-bit 4:2:2 and 4:4:4.
+ */
+const CODEC_PIXEL_FORMATS: Record<VideoCodec, PixelFormat[]> = {
+  h264: ['yuv420p', 'yuv422p', 'yuv444p', 'yuv420p10le', 'yuv422p10le', 'yuv444p10le'],
+  h265: ['yuv420p', 'yuv422p', 'yuv444p', 'yuv420p10le', 'yuv422p10le', 'yuv444p10le'],
+  vp8: ['yuv420p', 'yuva420p'],
+  vp9: ['yuv420p', 'yuva420p', 'yuv422p', 'yuv444p', 'yuv420p10le', 'yuv422p10le', 'yuv444p10le'],
+  prores: ['yuv422p10le', 'yuv444p10le', 'yuva444p10le'],
+};
+
+const DEFAULT_X264_PRESET: X264Preset = 'medium';
+
+/**
+ * Alpha pixel format per codec; codecs missing here cannot be transparent.
+ * VP9 is preferred over VP8 for transparent webm.
+ */
+const ALPHA_PIXEL_FORMATS: Partial<Record<RemotionCodec, PixelFormat>> = {
+  prores: 'yuva444p10le',
+  vp9: 'yuva420p',
+  vp8: 'yuva420p',
+};
+
+export interface EncodingOptions {
+  format?: Container;
+  codec?: VideoCodec;
+  crf?: number;
+  videoBitrate?: string;
+  audioBitrate?: string;
+  pixelFormat?: PixelFormat;
+  x264Preset?: X264Preset;
+  transparent?: boolean;
+}
+
+/**
+ * Encoding actually used for a render, reported in the render metadata
+ */
+export interface Encoding {
+  container: Container;
+  codec: RemotionCodec;
+  audioCodec: 'aac' | 'opus' | null;
+  crf?: number;
+  videoBitrate?: string;
+  audioBitrate?: string;
+  pixelFormat?: PixelFormat;
+  x264Preset?: X264Preset;
+  proResProfile?: 'hq' | '4444';
+  /** Frames keep their alpha channel */
+  transparent?: boolean;
+}
+
+/**
+ * Invalid combinations, as [settings key, message] pairs
+ */
+export function findEncodingIssues(options: EncodingOptions): Array<[keyof EncodingOptions, string]> {
+  const issues: Array<[keyof EncodingOptions, string]> = [];
+  const container = options.format ?? 'mp4';
+  const allowed = CONTAINER_CODECS[container];
+  const codec = options.codec ?? defaultCodec(container, options.transparent);
+
+  if (options.transparent && !allowed.some((c) => ALPHA_PIXEL_FORMATS[c])) {
+    issues.push(['transparent', `${container} cannot carry an alpha channel, use format mov (ProRes 4444) or webm (VP9)`]);
+    return issues;
+  }
+
+  if (!allowed.includes(codec)) {
+    issues.push(['codec', container === 'gif'
+      ? 'gif output has no codec option'
+      : `${codec} cannot be stored in ${container}, use ${allowed.join(' or ')}`]);
+    return issues;
+  }
+
+  if (options.crf !== undefined && options.videoBitrate !== undefined) {
+    issues.push(['crf', 'crf and videoBitrate cannot both be set, choose one']);
+  }
+
+  const crfRange = CRF[codec];
+  if (options.crf !== undefined) {
+    if (!crfRange) {
+      issues.push(['crf', `${codec} does not support crf`]);
+    } else if (options.crf < crfRange.min || options.crf > crfRange.max) {
+      issues.push(['crf', `must be between ${crfRange.min} and ${crfRange.max} for ${codec}`]);
+    }
+  }
+
+  if (options.videoBitrate !== undefined && (codec === 'prores' || codec === 'gif')) {
+    issues.push(['videoBitrate', `${codec} does not support videoBitrate`]);
+  }
+
+  if (options.audioBitrate !== undefined && !AUDIO_CODECS[container]) {
+    issues.push(['audioBitrate', `${container} output has no audio track`]);
+  }
+
+  if (options.pixelFormat !== undefined) {
+    if (codec === 'gif') {
+      issues.push(['pixelFormat', 'gif output has no pixelFormat option']);
+    } else if (!CODEC_PIXEL_FORMATS[codec].includes(options.pixelFormat)) {
+      issues.push(['pixelFormat', `${codec} supports ${CODEC_PIXEL_FORMATS[codec].join(', ')}`]);
+    } else if (!options.transparent && options.pixelFormat === ALPHA_PIXEL_FORMATS[codec]) {
+      // Alpha needs PNG frames and, for ProRes, the 4444 profile: both follow transparent
+      issues.push(['pixelFormat', `${options.pixelFormat} carries an alpha channel, set transparent: true instead`]);
+    }
+  }
+
+  if (options.transparent) {
+    const alpha = ALPHA_PIXEL_FORMATS[codec];
+    if (!alpha) {
+      issues.push(['transparent', `${codec} cannot carry an alpha channel, use ${allowed.filter((c) => ALPHA_PIXEL_FORMATS[c]).join(' or ')}`]);
+    } else if (options.pixelFormat !== undefined && options.pixelFormat !== alpha) {
+      issues.push(['pixelFormat', `transparent ${codec} output uses ${alpha}`]);
+    }
+  }
+
+  if (options.x264Preset !== undefined && codec !== 'h264') {
+    issues.push(['x264Preset', `only applies to h264, not ${codec}`]);
+  }
+
+  return issues;
+}
+
+/**
+ * Fill in the defaults. Assumes the options passed findEncodingIssues.
+ */
+export function resolveEncoding(options: EncodingOptions): Encoding {
+  const container = options.format ?? 'mp4';
+  const codec = options.codec ?? defaultCodec(container, options.transparent);
+  const audioCodec = AUDIO_CODECS[container];
+
+  const encoding: Encoding = { container, codec, audioCodec };
+  if (codec === 'gif') return encoding;
+
+  if (options.videoBitrate) {
+    encoding.videoBitrate = options.videoBitrate;
+  } else if (CRF[codec]) {
+    encoding.crf = options.crf ?? CRF[codec]?.default;
+  }
+  if (audioCodec && options.audioBitrate) encoding.audioBitrate = options.audioBitrate;
+  encoding.pixelFormat = options.transparent
+    ? ALPHA_PIXEL_FORMATS[codec]
+    : options.pixelFormat ?? CODEC_PIXEL_FORMATS[codec][0];
+  if (codec === 'h264') encoding.x264Preset = options.x264Preset ?? DEFAULT_X264_PRESET;
+  // 'hq' is 4:2:2; 4:4:4 sources, with or without alpha, need the 4444 profile
+  if (codec === 'prores') encoding.proResProfile = encoding.pixelFormat?.includes('444') ? '4444' : 'hq';
+  if (options.transparent) encoding.transparent = true;
+
+  return encoding;
+}
+
+export function getMimeType(container: Container): string {
+  return MIME_TYPES[container];
+}
+
+function defaultCodec(container: Container, transparent?: boolean): RemotionCodec {
+  if (transparent && container === 'webm') return 'vp9';
+  return CONTAINER_CODECS[container][0];
+}
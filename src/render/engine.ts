@@ -4,49 +4,40 @@
  * Uses dynamic bundling to render videos/images from template code.
  */
 
+import type { Bitrate } from '@remotion/renderer';
 import { randomUUID } from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { RenderConfig } from '../config/index.js';
-import { DynamicBundler } from './bundler.js';
+import { BrowserPool, BrowserPoolStatus } from './browserPool.js';
+import { BundleCacheStatus, BundleResult, DynamicBundler } from './bundler.js';
+import { Encoding, getMimeType, resolveEncoding } from './encoding.js';
+import { RenderCancelledError, RenderQueueFullError, RenderTimeoutError } from './errors.js';
+import { RenderQueue, RenderQueueStatus } from './queue.js';
+import { RenderVideoParams, RenderImageParams, StoryboardParams } from './schemas.js';
+import {
+  composeContactSheet,
+  pickStoryboardFrames,
+  DEFAULT_STILLS_PER_SCENE,
+  DEFAULT_THUMBNAIL_WIDTH,
+  StoryboardTile,
+} from './storyboard.js';
+import { computeTimeline, SceneTiming } from './timeline.js';
 
 // Redirect logs to stderr for MCP compatibility
 const log = (...args: unknown[]) => console.error('[RenderEngine]', ...args);
 
-export interface Scene {
-  type: 'title' | 'text' | 'counter' | 'image' | 'split' | 'list' | 'stats' | 'intro' | 'outro' | 'cta';
-  duration: number;
-  content: Record<string, unknown>;
-}
-
-export interface Theme {
-  primaryColor?: string;
-  secondaryColor?: string;
-  backgroundColor?: string;
-  fontFamily?: string;
-}
+// delayRender() timeouts and page functions that never return
+const TIMEOUT_PATTERN = /was called but not cleared after|timed out/i;
 
-export interface RenderVideoParams {
-  scenes: Scene[];
-  theme?: Theme;
-  settings?: {
-    width?: number;
-    height?: number;
-    fps?: number;
-    format?: 'mp4' | 'webm' | 'gif';
-  };
-}
+// Upper estimate of a poster's size, to skip posters too large to be returned inline
+const POSTER_BYTES_PER_PIXEL = { jpeg: 0.25, png: 0.5 } as const;
 
-export interface RenderImageParams {
-  scene: Scene;
-  theme?: Theme;
-  settings?: {
-    width?: number;
-    height?: number;
-    format?: 'png' | 'jpeg';
-  };
-  frame?: number;
-}
+export const DEFAULT_VIDEO_SETTINGS = {
+  width: 1920,
+  height: 1080,
+  fps: 30,
+} as const;
 
 export interface RenderResult {
   buffer: Buffer;
@@ -56,19 +47,74 @@ export interface RenderResult {
     width: number;
     height: number;
     fps?: number;
+    /** Codec and quality settings the video was encoded with */
+    encoding?: Encoding;
   };
+  /** Non-fatal issues, e.g. settings the output format cannot honour */
+  warnings?: string[];
+  /** Still of a video frame (PNG for transparent renders), when it can be returned inline */
+  poster?: RenderedImage;
+  /** Every output, in settings.variants order, when variants were requested; the fields above are the first one */
+  variants?: RenderedVariant[];
+}
+
+/**
+ * One output of a multi-variant render, named after settings.variants
+ */
+export interface RenderedVariant extends Omit<RenderResult, 'warnings' | 'variants'> {
+  name: string;
+}
+
+export interface RenderedImage {
+  buffer: Buffer;
+  mimeType: string;
+}
+
+export interface RenderProgress {
+  stage: 'bundling' | 'rendering';
+  /** Progress of the current stage between 0 and 1 */
+  progress: number;
+  renderedFrames: number;
+  encodedFrames: number;
+  totalFrames: number;
+}
+
+export interface RenderOptions {
+  /** Aborting this signal cancels the underlying renderer */
+  signal?: AbortSignal;
+  onProgress?: (progress: RenderProgress) => void;
+  /** Called when the render leaves the queue and starts */
+  onStart?: () => void;
+}
+
+/**
+ * A custom template to bundle instead of the universal one
+ */
+export interface CustomTemplate {
+  name: string;
+  code: string;
+}
+
+interface RenderDeadline {
+  signal: AbortSignal;
+  expired: () => boolean;
+  clear: () => void;
 }
 
 export class RenderEngine {
   private config: RenderConfig;
   private renderer: typeof import('@remotion/renderer') | null = null;
   private bundler: DynamicBundler;
-  private defaultTemplateCode: string;
+  private queue: RenderQueue;
+  private browserPool: BrowserPool | null = null;
 
   constructor(config: RenderConfig) {
     this.config = config;
-    this.bundler = new DynamicBundler(path.join(config.workDir, 'bundles'));
-    this.defaultTemplateCode = this.getDefaultTemplateCode();
+    this.queue = new RenderQueue(config.maxConcurrentRenders, config.maxQueueLength);
+    this.bundler = new DynamicBundler(path.join(config.workDir, 'bundles'), {
+      maxBytes: config.bundleCacheMaxBytes,
+      maxEntries: config.bundleCacheMaxEntries,
+    });
   }
 
   async initialize(): Promise<void> {
@@ -76,99 +122,295 @@ export class RenderEngine {
     
     try {
       this.renderer = await import('@remotion/renderer');
+      this.browserPool = new BrowserPool(this.renderer, this.config.browserIdleSeconds, this.config.logLevel);
       log('Remotion renderer loaded');
     } catch (err) {
       log('Remotion not available, using mock mode');
     }
 
     await this.bundler.initialize();
-    log('Initialized with 9 scene types');
+    log(`Initialized with universal template from ${this.config.universalTemplateDir}`);
   }
 
-  async renderVideo(params: RenderVideoParams, templateCode?: string): Promise<RenderResult> {
-    const workDir = path.join(this.config.workDir, randomUUID());
-    const format = params.settings?.format || 'mp4';
-    const outputPath = path.join(workDir, `output.${format}`);
+  async renderVideo(
+    params: RenderVideoParams,
+    template?: CustomTemplate,
+    options: RenderOptions = {}
+  ): Promise<RenderResult> {
+    const label = `${params.scenes.length} scenes`;
+    return this.queue.run('video', label, () => this.executeVideo(params, template, options), options);
+  }
 
-    const width = params.settings?.width || 1920;
-    const height = params.settings?.height || 1080;
-    const fps = params.settings?.fps || 30;
+  async renderImage(
+    params: RenderImageParams,
+    template?: CustomTemplate,
+    options: RenderOptions = {}
+  ): Promise<RenderResult> {
+    const label = `${params.scene.type} scene`;
+    return this.queue.run('image', label, () => this.executeImage(params, template, options), options);
+  }
 
-    const totalDuration = params.scenes.reduce((sum, s) => sum + s.duration, 0);
-    const durationInFrames = Math.ceil(totalDuration * fps);
+  /**
+   * Contact sheet of a few stills per scene, queued like an image render
+   */
+  async renderStoryboard(
+    params: StoryboardParams,
+    template?: CustomTemplate,
+    options: RenderOptions = {}
+  ): Promise<RenderResult> {
+    const label = `storyboard, ${params.scenes.length} scenes`;
+    return this.queue.run('image', label, () => this.executeStoryboard(params, template, options), options);
+  }
+
+  getQueueStatus(): RenderQueueStatus {
+    return this.queue.getStatus();
+  }
+
+  /**
+   * Throw RenderQueueFullError now if a render submitted now would be rejected.
+   * Lets async jobs fail the tool call instead of failing in the background.
+   */
+  assertCanQueue(): void {
+    if (!this.queue.canAccept()) {
+      throw new RenderQueueFullError(this.queue.getStatus().maxQueueLength);
+    }
+  }
+
+  getBundleCacheStatus(): BundleCacheStatus {
+    return this.bundler.getStatus();
+  }
+
+  /**
+   * Delete cached bundles; bundles used by running renders are kept
+   */
+  async clearBundleCache(): Promise<{ removed: number; freedBytes: number; inUse: number }> {
+    return this.bundler.clear();
+  }
+
+  getBrowserStatus(): BrowserPoolStatus | null {
+    return this.browserPool?.getStatus() ?? null;
+  }
+
+  async shutdown(): Promise<void> {
+    await this.browserPool?.shutdown();
+  }
+
+  private async executeVideo(
+    params: RenderVideoParams,
+    template?: CustomTemplate,
+    options: RenderOptions = {}
+  ): Promise<RenderResult> {
+    const workDir = path.join(this.config.workDir, randomUUID());
+    const encoding = resolveEncoding(params.settings ?? {});
+    const format = encoding.container;
+
+    const fps = params.settings?.fps || DEFAULT_VIDEO_SETTINGS.fps;
+    // Every variant is rendered from the same bundle, browser and queue slot
+    const targets = params.settings?.variants ?? [{
+      name: undefined,
+      width: params.settings?.width || DEFAULT_VIDEO_SETTINGS.width,
+      height: params.settings?.height || DEFAULT_VIDEO_SETTINGS.height,
+    }];
+
+    // Transitions overlap consecutive scenes, shortening the video
+    const timeline = computeTimeline(params.scenes, params.settings?.transition, fps);
+    const { durationInFrames } = timeline;
+    const totalDuration = Math.round(durationInFrames / fps * 100) / 100;
+    const totalFrames = durationInFrames * targets.length;
+
+    const warnings: string[] = [];
+    let audio = params.settings?.audio;
+    if (audio && !encoding.audioCodec) {
+      warnings.push(`settings.audio is ignored: ${format} output has no audio track`);
+      audio = undefined;
+    }
+
+    const posters: Array<RenderedImage | undefined> = [];
+    const deadline = this.startDeadline(options.signal);
+    // Frame being rendered, to name the scene in timeout errors
+    let frame = 0;
 
     try {
       await fs.mkdir(workDir, { recursive: true });
 
-      if (this.renderer) {
-        const code = templateCode || this.defaultTemplateCode;
-        const { bundlePath, cleanup } = await this.bundler.bundle(code, 'universal');
+      if (this.renderer && this.browserPool) {
+        const { bundlePath, cleanup } = await this.getBundle(template, (progress) => {
+          options.onProgress?.({ stage: 'bundling', progress, renderedFrames: 0, encodedFrames: 0, totalFrames });
+        });
+        const { browser, release } = await this.browserPool.acquire().catch(async (err) => {
+          await cleanup();
+          throw err;
+        });
 
         try {
-          const inputProps = { scenes: params.scenes, theme: params.theme || {} };
+          this.throwIfCancelled(deadline.signal);
+
+          const inputProps = {
+            scenes: params.scenes,
+            theme: params.theme || {},
+            audio,
+            transition: params.settings?.transition,
+            transparent: encoding.transparent,
+          };
 
-          log(`Rendering video: ${params.scenes.length} scenes, ${durationInFrames} frames, ${width}x${height}`);
+          log(`Rendering video: ${params.scenes.length} scenes, ${durationInFrames} frames, ${targets.map((t) => `${t.width}x${t.height}`).join(', ')}`);
           log(`Scene types: ${params.scenes.map(s => s.type).join(', ')}`);
 
           const composition = await this.renderer.selectComposition({
             serveUrl: bundlePath,
             id: 'Main',
             inputProps,
+            puppeteerInstance: browser,
+            logLevel: this.config.logLevel,
+            timeoutInMilliseconds: this.config.timeoutPerFrame,
           });
 
-          await this.renderer.renderMedia({
-            composition: {
-              ...composition,
-              width,
-              height,
-              fps,
-              durationInFrames,
-            },
-            serveUrl: bundlePath,
-            codec: this.getCodec(format),
-            outputLocation: outputPath,
-            inputProps,
-            logLevel: 'error',
-            concurrency: this.config.concurrency,
-          });
+          const { cancelSignal, cancel } = this.renderer.makeCancelSignal();
+          deadline.signal.addEventListener('abort', cancel, { once: true });
+
+          for (const [index, { width, height }] of targets.entries()) {
+            this.throwIfCancelled(deadline.signal);
+            const done = index * durationInFrames;
+
+            await this.renderer.renderMedia({
+              composition: {
+                ...composition,
+                width,
+                height,
+                fps,
+                durationInFrames,
+              },
+              serveUrl: bundlePath,
+              codec: encoding.codec,
+              audioCodec: encoding.audioCodec,
+              crf: encoding.crf,
+              videoBitrate: encoding.videoBitrate as Bitrate | undefined,
+              audioBitrate: encoding.audioBitrate as Bitrate | undefined,
+              pixelFormat: encoding.pixelFormat,
+              x264Preset: encoding.x264Preset,
+              proResProfile: encoding.proResProfile,
+              // Only PNG frames keep the alpha channel
+              imageFormat: encoding.transparent ? 'png' : undefined,
+              outputLocation: path.join(workDir, `output-${index}.${format}`),
+              inputProps,
+              logLevel: this.config.logLevel,
+              timeoutInMilliseconds: this.config.timeoutPerFrame,
+              concurrency: this.config.concurrency,
+              cancelSignal,
+              puppeteerInstance: browser,
+              onProgress: ({ progress, renderedFrames, encodedFrames }) => {
+                frame = Math.min(renderedFrames, durationInFrames - 1);
+                options.onProgress?.({
+                  stage: 'rendering',
+                  progress: (index + progress) / targets.length,
+                  renderedFrames: done + renderedFrames,
+                  encodedFrames: done + encodedFrames,
+                  totalFrames,
+                });
+              },
+            });
+
+            const posterFormat = encoding.transparent ? 'png' : 'jpeg';
+            if (this.wantsPoster(params, width * height * POSTER_BYTES_PER_PIXEL[posterFormat])) {
+              this.throwIfCancelled(deadline.signal);
+              const posterPath = path.join(workDir, `poster-${index}.${posterFormat}`);
+              frame = Math.min(params.posterFrame ?? Math.floor(durationInFrames / 2), durationInFrames - 1);
+              await this.renderer.renderStill({
+                composition: { ...composition, width, height, fps, durationInFrames },
+                serveUrl: bundlePath,
+                output: posterPath,
+                frame,
+                inputProps,
+                imageFormat: posterFormat,
+                jpegQuality: posterFormat === 'jpeg' ? 80 : undefined,
+                cancelSignal,
+                puppeteerInstance: browser,
+                logLevel: this.config.logLevel,
+                timeoutInMilliseconds: this.config.timeoutPerFrame,
+              });
+              posters[index] = { buffer: await fs.readFile(posterPath), mimeType: `image/${posterFormat}` };
+            }
+          }
         } finally {
+          await release();
           await cleanup();
         }
       } else {
         log('Mock render:', params);
-        const mockData = Buffer.from(`Mock video: ${JSON.stringify(params)}`);
-        await fs.writeFile(outputPath, mockData);
+        for (const [index, target] of targets.entries()) {
+          const mockData = Buffer.from(`Mock video: ${JSON.stringify({ ...params, target })}`);
+          await fs.writeFile(path.join(workDir, `output-${index}.${format}`), mockData);
+        }
       }
 
-      const buffer = await fs.readFile(outputPath);
+      const rendered: RenderedVariant[] = [];
+      for (const [index, { name, width, height }] of targets.entries()) {
+        rendered.push({
+          name: name ?? '',
+          buffer: await fs.readFile(path.join(workDir, `output-${index}.${format}`)),
+          mimeType: getMimeType(format),
+          metadata: { duration: totalDuration, width, height, fps, encoding },
+          ...(posters[index] && { poster: posters[index] }),
+        });
+      }
 
+      const { name: _name, ...first } = rendered[0];
       return {
-        buffer,
-        mimeType: this.getMimeType(format),
-        metadata: { duration: totalDuration, width, height, fps },
+        ...first,
+        ...(warnings.length > 0 && { warnings }),
+        ...(params.settings?.variants && { variants: rendered }),
       };
+    } catch (err) {
+      throw this.toRenderError(err, deadline, frame, params.scenes, timeline.scenes);
     } finally {
+      deadline.clear();
       await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
     }
   }
 
-  async renderImage(params: RenderImageParams, templateCode?: string): Promise<RenderResult> {
+  /**
+   * Posters are only returned inline by synchronous renders: always with inline: true,
+   * by default when under inlineImageMaxBytes
+   */
+  private wantsPoster(params: RenderVideoParams, estimatedBytes: number): boolean {
+    if (params.async || params.inline === false) return false;
+    return params.inline === true || estimatedBytes <= this.config.inlineImageMaxBytes;
+  }
+
+  private async executeImage(
+    params: RenderImageParams,
+    template?: CustomTemplate,
+    options: RenderOptions = {}
+  ): Promise<RenderResult> {
     const workDir = path.join(this.config.workDir, randomUUID());
     const format = params.settings?.format || 'png';
     const outputPath = path.join(workDir, `output.${format}`);
 
     const width = params.settings?.width || 1920;
     const height = params.settings?.height || 1080;
+    const frame = params.frame ?? 15;
+    const deadline = this.startDeadline(options.signal);
 
     try {
       await fs.mkdir(workDir, { recursive: true });
 
-      if (this.renderer) {
-        const code = templateCode || this.defaultTemplateCode;
-        const { bundlePath, cleanup } = await this.bundler.bundle(code, 'universal');
+      if (this.renderer && this.browserPool) {
+        const { bundlePath, cleanup } = await this.getBundle(template, (progress) => {
+          options.onProgress?.({ stage: 'bundling', progress, renderedFrames: 0, encodedFrames: 0, totalFrames: 1 });
+        });
+        const { browser, release } = await this.browserPool.acquire().catch(async (err) => {
+          await cleanup();
+          throw err;
+        });
 
         try {
-          const inputProps = { scenes: [params.scene], theme: params.theme || {} };
+          this.throwIfCancelled(deadline.signal);
+
+          const inputProps = {
+            scenes: [params.scene],
+            theme: params.theme || {},
+            transparent: params.settings?.transparent,
+          };
 
           log(`Rendering image: ${params.scene.type}, ${width}x${height}`);
 
@@ -176,8 +418,14 @@ export class RenderEngine {
             serveUrl: bundlePath,
             id: 'Main',
             inputProps,
+            puppeteerInstance: browser,
+            logLevel: this.config.logLevel,
+            timeoutInMilliseconds: this.config.timeoutPerFrame,
           });
 
+          const { cancelSignal, cancel } = this.renderer.makeCancelSignal();
+          deadline.signal.addEventListener('abort', cancel, { once: true });
+
           await this.renderer.renderStill({
             composition: {
               ...composition,
@@ -188,12 +436,18 @@ export class RenderEngine {
             },
             serveUrl: bundlePath,
             output: outputPath,
-            frame: params.frame ?? 15,
+            frame,
             inputProps,
             imageFormat: format,
-            logLevel: 'error',
+            cancelSignal,
+            puppeteerInstance: browser,
+            logLevel: this.config.logLevel,
+            timeoutInMilliseconds: this.config.timeoutPerFrame,
           });
+
+          options.onProgress?.({ stage: 'rendering', progress: 1, renderedFrames: 1, encodedFrames: 1, totalFrames: 1 });
         } finally {
+          await release();
           await cleanup();
         }
       } else {
@@ -208,734 +462,235 @@ export class RenderEngine {
         mimeType: format === 'jpeg' ? 'image/jpeg' : 'image/png',
         metadata: { width, height },
       };
+    } catch (err) {
+      const { scenes } = computeTimeline([params.scene], undefined, 30);
+      throw this.toRenderError(err, deadline, frame, [params.scene], scenes);
     } finally {
+      deadline.clear();
       await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
     }
   }
 
-  private getCodec(format: string): 'h264' | 'vp8' | 'gif' {
-    if (format === 'webm') return 'vp8';
-    if (format === 'gif') return 'gif';
-    return 'h264';
-  }
+  private async executeStoryboard(
+    params: StoryboardParams,
+    template?: CustomTemplate,
+    options: RenderOptions = {}
+  ): Promise<RenderResult> {
+    const workDir = path.join(this.config.workDir, randomUUID());
 
-  private getMimeType(format: string): string {
-    return format === 'webm' ? 'video/webm' : format === 'gif' ? 'image/gif' : 'video/mp4';
-  }
+    const width = params.settings?.width || DEFAULT_VIDEO_SETTINGS.width;
+    const height = params.settings?.height || DEFAULT_VIDEO_SETTINGS.height;
+    const fps = params.settings?.fps || DEFAULT_VIDEO_SETTINGS.fps;
+    const stillsPerScene = params.stillsPerScene ?? DEFAULT_STILLS_PER_SCENE;
 
-  private getDefaultTemplateCode(): string {
-    return `import React from 'react';
-import { useCurrentFrame, useVideoConfig, interpolate, spring, Sequence, Img, AbsoluteFill } from 'remotion';
+    const timeline = computeTimeline(params.scenes, params.settings?.transition, fps);
+    const frames = pickStoryboardFrames(params.scenes, timeline.scenes, fps, stillsPerScene);
+    const duration = Math.round(timeline.durationInFrames / fps * 100) / 100;
 
-// ============================================================================
-// TYPES
-// ============================================================================
+    // Stills are rendered directly at thumbnail size
+    const scale = Math.min(1, (params.thumbnailWidth ?? DEFAULT_THUMBNAIL_WIDTH) / width);
+    const tileWidth = Math.round(width * scale);
+    const tileHeight = Math.round(height * scale);
 
-interface Scene {
-  type: 'title' | 'text' | 'counter' | 'image' | 'split' | 'list' | 'stats' | 'intro' | 'outro' | 'cta';
-  duration: number;
-  content: Record<string, any>;
-}
+    const deadline = this.startDeadline(options.signal);
+    let currentFrame = 0;
 
-interface Theme {
-  primaryColor?: string;
-  secondaryColor?: string;
-  backgroundColor?: string;
-  fontFamily?: string;
-}
+    try {
+      await fs.mkdir(workDir, { recursive: true });
 
-// ============================================================================
-// CONSTANTS
-// ============================================================================
-
-const DEFAULT_COLORS = {
-  dark: '#1a1a1a',
-  light: '#f5f5f5',
-  primary: '#E85D04',
-  white: '#ffffff',
-};
-
-// ============================================================================
-// BACKGROUND COMPONENT
-// ============================================================================
-
-const Background: React.FC<{ variant?: 'dark' | 'light'; theme: Theme }> = ({ variant = 'dark', theme }) => {
-  const frame = useCurrentFrame();
-  const isDark = variant === 'dark';
-  const bgColor = theme.backgroundColor || (isDark ? DEFAULT_COLORS.dark : DEFAULT_COLORS.light);
-  const accentColor = theme.primaryColor || DEFAULT_COLORS.primary;
-
-  return (
-    <AbsoluteFill style={{ backgroundColor: bgColor, overflow: 'hidden' }}>
-      <div style={{
-        position: 'absolute',
-        top: '-30%',
-        left: '-20%',
-        width: '70%',
-        height: '70%',
-        borderRadius: '50%',
-        background: \`radial-gradient(circle, \${accentColor}25 0%, transparent 70%)\`,
-        transform: \`translate(\${Math.sin(frame * 0.02) * 20}px, \${Math.cos(frame * 0.02) * 15}px)\`,
-      }} />
-      <div style={{
-        position: 'absolute',
-        bottom: '-30%',
-        right: '-20%',
-        width: '80%',
-        height: '80%',
-        borderRadius: '50%',
-        background: \`radial-gradient(circle, \${accentColor}18 0%, transparent 70%)\`,
-        transform: \`translate(\${Math.cos(frame * 0.015) * 25}px, \${Math.sin(frame * 0.015) * 20}px)\`,
-      }} />
-    </AbsoluteFill>
-  );
-};
-
-// ============================================================================
-// ANIMATED TEXT COMPONENT
-// ============================================================================
-
-const AnimatedText: React.FC<{
-  text: string;
-  color: string;
-  fontSize: number;
-  fontWeight?: string | number;
-  delay?: number;
-  animation?: 'fade' | 'slide' | 'scale';
-}> = ({ text, color, fontSize, fontWeight = 'bold', delay = 0, animation = 'slide' }) => {
-  const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
-  const words = text.split(' ');
-
-  return (
-    <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: fontSize * 0.2 }}>
-      {words.map((word, i) => {
-        const wordDelay = delay + i * 3;
-        let opacity = 1;
-        let transform = 'none';
-
-        if (animation === 'fade') {
-          opacity = interpolate(frame - wordDelay, [0, 12], [0, 1], {
-            extrapolateLeft: 'clamp',
-            extrapolateRight: 'clamp',
-          });
-        } else if (animation === 'slide') {
-          const progress = spring({ frame: frame - wordDelay, fps, config: { damping: 15, stiffness: 150 } });
-          const y = interpolate(progress, [0, 1], [30, 0]);
-          opacity = interpolate(frame - wordDelay, [0, 8], [0, 1], {
-            extrapolateLeft: 'clamp',
-            extrapolateRight: 'clamp',
-          });
-          transform = \`translateY(\${y}px)\`;
-        } else if (animation === 'scale') {
-          const scale = spring({ frame: frame - wordDelay, fps, config: { damping: 12, stiffness: 180 } });
-          opacity = interpolate(frame - wordDelay, [0, 8], [0, 1], {
-            extrapolateLeft: 'clamp',
-            extrapolateRight: 'clamp',
+      if (!this.renderer || !this.browserPool) {
+        log('Mock storyboard:', params);
+        return {
+          buffer: Buffer.from(`Mock storyboard: ${JSON.stringify(params)}`),
+          mimeType: 'image/png',
+          metadata: { duration, width: tileWidth, height: tileHeight, fps },
+        };
+      }
+
+      const { bundlePath, cleanup } = await this.getBundle(template, (progress) => {
+        options.onProgress?.({ stage: 'bundling', progress, renderedFrames: 0, encodedFrames: 0, totalFrames: frames.length });
+      });
+      const { browser, release } = await this.browserPool.acquire().catch(async (err) => {
+        await cleanup();
+        throw err;
+      });
+
+      try {
+        this.throwIfCancelled(deadline.signal);
+
+        const inputProps = {
+          scenes: params.scenes,
+          theme: params.theme || {},
+          transition: params.settings?.transition,
+        };
+
+        log(`Rendering storyboard: ${params.scenes.length} scenes, ${frames.length} stills, ${tileWidth}x${tileHeight}`);
+
+        const composition = await this.renderer.selectComposition({
+          serveUrl: bundlePath,
+          id: 'Main',
+          inputProps,
+          puppeteerInstance: browser,
+          logLevel: this.config.logLevel,
+          timeoutInMilliseconds: this.config.timeoutPerFrame,
+        });
+
+        const { cancelSignal, cancel } = this.renderer.makeCancelSignal();
+        deadline.signal.addEventListener('abort', cancel, { once: true });
+
+        const tiles: StoryboardTile[] = [];
+        for (const [index, frame] of frames.entries()) {
+          this.throwIfCancelled(deadline.signal);
+          currentFrame = frame.frame;
+
+          const output = path.join(workDir, `still-${index}.jpeg`);
+          await this.renderer.renderStill({
+            composition: {
+              ...composition,
+              width,
+              height,
+              fps,
+              durationInFrames: timeline.durationInFrames,
+            },
+            serveUrl: bundlePath,
+            output,
+            frame: frame.frame,
+            inputProps,
+            imageFormat: 'jpeg',
+            jpegQuality: 85,
+            scale,
+            cancelSignal,
+            puppeteerInstance: browser,
+            logLevel: this.config.logLevel,
+            timeoutInMilliseconds: this.config.timeoutPerFrame,
           });
-          transform = \`scale(\${scale})\`;
-        }
+          tiles.push({ frame, image: await fs.readFile(output) });
 
-        return (
-          <span key={i} style={{ color, fontSize, fontWeight, opacity, transform, display: 'inline-block' }}>
-            {word}
-          </span>
-        );
-      })}
-    </div>
-  );
-};
-
-// ============================================================================
-// ANIMATED COUNTER COMPONENT
-// ============================================================================
-
-const AnimatedCounter: React.FC<{
-  value: number;
-  suffix?: string;
-  prefix?: string;
-  color: string;
-  fontSize: number;
-  delay?: number;
-}> = ({ value, suffix = '', prefix = '', color, fontSize, delay = 0 }) => {
-  const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
-
-  const progress = spring({
-    frame: frame - delay,
-    fps,
-    config: { damping: 30, stiffness: 60 },
-    durationInFrames: 45,
-  });
-
-  const displayValue = Math.floor(interpolate(progress, [0, 1], [0, value]));
-  const scale = spring({ frame: frame - delay, fps, config: { damping: 12, stiffness: 100 } });
-  const opacity = interpolate(frame - delay, [0, 10], [0, 1], {
-    extrapolateLeft: 'clamp',
-    extrapolateRight: 'clamp',
-  });
-
-  return (
-    <div style={{ color, fontSize, fontWeight: 'bold', transform: \`scale(\${Math.min(scale, 1.05)})\`, opacity }}>
-      {prefix}{displayValue.toLocaleString()}{suffix}
-    </div>
-  );
-};
-
-// ============================================================================
-// SCENE COMPONENTS
-// ============================================================================
-
-const TitleScene: React.FC<{ content: any; theme: Theme }> = ({ content, theme }) => {
-  const variant = content.variant || 'dark';
-  const isDark = variant === 'dark';
-  const titleColor = content.titleColor || theme.primaryColor || DEFAULT_COLORS.primary;
-  const subtitleColor = isDark ? DEFAULT_COLORS.white : DEFAULT_COLORS.dark;
-
-  return (
-    <AbsoluteFill style={{ fontFamily: theme.fontFamily || 'Arial, sans-serif' }}>
-      <Background variant={variant} theme={theme} />
-      <AbsoluteFill style={{ justifyContent: 'center', alignItems: 'center', padding: 60 }}>
-        <div style={{ textAlign: 'center' }}>
-          {content.title && <AnimatedText text={content.title} color={titleColor} fontSize={80} delay={0} animation={content.animation || 'slide'} />}
-          {content.subtitle && (
-            <div style={{ marginTop: 24 }}>
-              <AnimatedText text={content.subtitle} color={subtitleColor} fontSize={36} fontWeight="normal" delay={12} animation={content.animation || 'slide'} />
-            </div>
-          )}
-        </div>
-      </AbsoluteFill>
-    </AbsoluteFill>
-  );
-};
-
-const TextScene: React.FC<{ content: any; theme: Theme }> = ({ content, theme }) => {
-  const frame = useCurrentFrame();
-  const variant = content.variant || 'dark';
-  const isDark = variant === 'dark';
-  const titleColor = content.titleColor || theme.primaryColor || DEFAULT_COLORS.primary;
-  const textColor = isDark ? DEFAULT_COLORS.white : DEFAULT_COLORS.dark;
-  const textOpacity = interpolate(frame - 20, [0, 15], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
-
-  return (
-    <AbsoluteFill style={{ fontFamily: theme.fontFamily || 'Arial, sans-serif' }}>
-      <Background variant={variant} theme={theme} />
-      <AbsoluteFill style={{ justifyContent: 'center', alignItems: 'center', padding: 80 }}>
-        <div style={{ textAlign: 'center', maxWidth: '80%' }}>
-          {content.title && <AnimatedText text={content.title} color={titleColor} fontSize={64} delay={0} animation={content.animation || 'slide'} />}
-          {content.subtitle && (
-            <div style={{ marginTop: 20 }}>
-              <AnimatedText text={content.subtitle} color={textColor} fontSize={32} fontWeight="normal" delay={10} animation={content.animation || 'slide'} />
-            </div>
-          )}
-          {content.text && (
-            <p style={{ color: textColor, fontSize: 24, marginTop: 30, lineHeight: 1.6, opacity: textOpacity * 0.9 }}>
-              {content.text}
-            </p>
-          )}
-        </div>
-      </AbsoluteFill>
-    </AbsoluteFill>
-  );
-};
-
-const CounterScene: React.FC<{ content: any; theme: Theme }> = ({ content, theme }) => {
-  const variant = content.variant || 'dark';
-  const isDark = variant === 'dark';
-  const counterColor = content.titleColor || theme.primaryColor || DEFAULT_COLORS.primary;
-  const labelColor = isDark ? DEFAULT_COLORS.white : DEFAULT_COLORS.dark;
-  const numValue = typeof content.value === 'string' ? parseInt(content.value, 10) || 0 : content.value || 0;
-
-  return (
-    <AbsoluteFill style={{ fontFamily: theme.fontFamily || 'Arial, sans-serif' }}>
-      <Background variant={variant} theme={theme} />
-      <AbsoluteFill style={{ justifyContent: 'center', alignItems: 'center' }}>
-        <div style={{ textAlign: 'center' }}>
-          <AnimatedCounter value={numValue} suffix={content.suffix || ''} prefix={content.prefix || ''} color={counterColor} fontSize={140} delay={5} />
-          {content.label && (
-            <div style={{ marginTop: 16 }}>
-              <AnimatedText text={content.label} color={labelColor} fontSize={40} fontWeight="normal" delay={15} animation="fade" />
-            </div>
-          )}
-        </div>
-      </AbsoluteFill>
-    </AbsoluteFill>
-  );
-};
-
-const ImageScene: React.FC<{ content: any; theme: Theme }> = ({ content, theme }) => {
-  const frame = useCurrentFrame();
-  const { durationInFrames } = useVideoConfig();
-  const animation = content.animation || 'zoom-in';
-
-  let scale = 1;
-  let translateX = 0;
-
-  if (animation === 'zoom-in') {
-    scale = interpolate(frame, [0, durationInFrames], [1, 1.15], { extrapolateRight: 'clamp' });
-  } else if (animation === 'zoom-out') {
-    scale = interpolate(frame, [0, durationInFrames], [1.15, 1], { extrapolateRight: 'clamp' });
-  } else if (animation === 'pan') {
-    translateX = interpolate(frame, [0, durationInFrames], [-20, 20], { extrapolateRight: 'clamp' });
-    scale = 1.1;
-  }
+          const done = index + 1;
+          options.onProgress?.({ stage: 'rendering', progress: done / frames.length, renderedFrames: done, encodedFrames: done, totalFrames: frames.length });
+        }
 
-  if (!content.url) {
-    return (
-      <AbsoluteFill style={{ fontFamily: theme.fontFamily || 'Arial, sans-serif' }}>
-        <Background variant="dark" theme={theme} />
-        <AbsoluteFill style={{ justifyContent: 'center', alignItems: 'center' }}>
-          <p style={{ color: '#666', fontSize: 24 }}>No image URL provided</p>
-        </AbsoluteFill>
-      </AbsoluteFill>
-    );
-  }
+        const sheet = await composeContactSheet(tiles, stillsPerScene, tileWidth, tileHeight, fps);
 
-  return (
-    <AbsoluteFill style={{ backgroundColor: '#000' }}>
-      <Img src={content.url} style={{ width: '100%', height: '100%', objectFit: 'cover', transform: \`scale(\${scale}) translateX(\${translateX}px)\` }} />
-      {(content.title || content.subtitle) && (
-        <AbsoluteFill style={{ background: 'linear-gradient(transparent 50%, rgba(0,0,0,0.8) 100%)', justifyContent: 'flex-end', alignItems: 'center', padding: 60, fontFamily: theme.fontFamily || 'Arial, sans-serif' }}>
-          <div style={{ textAlign: 'center' }}>
-            {content.title && <h2 style={{ color: '#fff', fontSize: 48, margin: 0, textShadow: '0 2px 10px rgba(0,0,0,0.5)' }}>{content.title}</h2>}
-            {content.subtitle && <p style={{ color: 'rgba(255,255,255,0.8)', fontSize: 24, marginTop: 10 }}>{content.subtitle}</p>}
-          </div>
-        </AbsoluteFill>
-      )}
-    </AbsoluteFill>
-  );
-};
-
-const SplitScene: React.FC<{ content: any; theme: Theme }> = ({ content, theme }) => {
-  const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
-  const variant = content.variant || 'dark';
-  const isDark = variant === 'dark';
-  const titleColor = content.titleColor || theme.primaryColor || DEFAULT_COLORS.primary;
-  const textColor = isDark ? DEFAULT_COLORS.white : DEFAULT_COLORS.dark;
-  const imagePosition = content.imagePosition || 'right';
-
-  const imageProgress = spring({ frame, fps, config: { damping: 20, stiffness: 80 } });
-  const imageX = interpolate(imageProgress, [0, 1], [imagePosition === 'left' ? -100 : 100, 0]);
-  const imageOpacity = interpolate(frame, [0, 15], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
-  const textOpacity = interpolate(frame - 25, [0, 15], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
-
-  const textContent = (
-    <div style={{ flex: 1, display: 'flex', flexDirection: 'column', justifyContent: 'center', padding: 60 }}>
-      {content.title && <AnimatedText text={content.title} color={titleColor} fontSize={52} delay={10} animation="slide" />}
-      {content.subtitle && (
-        <div style={{ marginTop: 16 }}>
-          <AnimatedText text={content.subtitle} color={textColor} fontSize={28} fontWeight="normal" delay={18} animation="fade" />
-        </div>
-      )}
-      {content.text && <p style={{ color: textColor, fontSize: 22, marginTop: 24, lineHeight: 1.6, opacity: textOpacity * 0.85 }}>{content.text}</p>}
-    </div>
-  );
-
-  const imageContent = (
-    <div style={{ flex: 1, overflow: 'hidden', transform: \`translateX(\${imageX}px)\`, opacity: imageOpacity }}>
-      {content.imageUrl ? (
-        <Img src={content.imageUrl} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
-      ) : (
-        <div style={{ width: '100%', height: '100%', backgroundColor: titleColor, opacity: 0.2, display: 'flex', justifyContent: 'center', alignItems: 'center' }}>
-          <span style={{ color: textColor, opacity: 0.5 }}>Image</span>
-        </div>
-      )}
-    </div>
-  );
-
-  return (
-    <AbsoluteFill style={{ fontFamily: theme.fontFamily || 'Arial, sans-serif' }}>
-      <Background variant={variant} theme={theme} />
-      <AbsoluteFill style={{ flexDirection: 'row', display: 'flex' }}>
-        {imagePosition === 'left' ? <>{imageContent}{textContent}</> : <>{textContent}{imageContent}</>}
-      </AbsoluteFill>
-    </AbsoluteFill>
-  );
-};
-
-const ListScene: React.FC<{ content: any; theme: Theme }> = ({ content, theme }) => {
-  const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
-  const variant = content.variant || 'dark';
-  const isDark = variant === 'dark';
-  const titleColor = content.titleColor || theme.primaryColor || DEFAULT_COLORS.primary;
-  const textColor = isDark ? DEFAULT_COLORS.white : DEFAULT_COLORS.dark;
-  const items = content.items || [];
-
-  return (
-    <AbsoluteFill style={{ fontFamily: theme.fontFamily || 'Arial, sans-serif' }}>
-      <Background variant={variant} theme={theme} />
-      <AbsoluteFill style={{ justifyContent: 'center', alignItems: 'center', padding: 80 }}>
-        <div style={{ maxWidth: '80%' }}>
-          {content.title && (
-            <div style={{ marginBottom: 50, textAlign: 'center' }}>
-              <AnimatedText text={content.title} color={titleColor} fontSize={52} delay={0} animation="slide" />
-            </div>
-          )}
-          <div style={{ display: 'flex', flexDirection: 'column', gap: 20 }}>
-            {items.map((item: string, i: number) => {
-              const delay = 15 + i * 8;
-              const progress = spring({ frame: frame - delay, fps, config: { damping: 15, stiffness: 100 } });
-              const x = interpolate(progress, [0, 1], [100, 0]);
-              const opacity = interpolate(frame - delay, [0, 12], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
-
-              return (
-                <div key={i} style={{ display: 'flex', alignItems: 'center', gap: 20, transform: \`translateX(\${x}px)\`, opacity }}>
-                  <div style={{ width: 12, height: 12, borderRadius: '50%', backgroundColor: titleColor, flexShrink: 0 }} />
-                  <span style={{ color: textColor, fontSize: 32 }}>{item}</span>
-                </div>
-              );
-            })}
-          </div>
-        </div>
-      </AbsoluteFill>
-    </AbsoluteFill>
-  );
-};
-
-const StatsScene: React.FC<{ content: any; theme: Theme }> = ({ content, theme }) => {
-  const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
-  const variant = content.variant || 'dark';
-  const isDark = variant === 'dark';
-  const accentColor = theme.primaryColor || DEFAULT_COLORS.primary;
-  const textColor = isDark ? DEFAULT_COLORS.white : DEFAULT_COLORS.dark;
-  const stats = content.stats || [];
-
-  return (
-    <AbsoluteFill style={{ fontFamily: theme.fontFamily || 'Arial, sans-serif' }}>
-      <Background variant={variant} theme={theme} />
-      <AbsoluteFill style={{ justifyContent: 'center', alignItems: 'center', padding: 60 }}>
-        <div style={{ width: '100%', maxWidth: 1200 }}>
-          {content.title && (
-            <div style={{ marginBottom: 60, textAlign: 'center' }}>
-              <AnimatedText text={content.title} color={accentColor} fontSize={48} delay={0} animation="slide" />
-            </div>
-          )}
-          <div style={{ display: 'flex', justifyContent: 'center', gap: 80, flexWrap: 'wrap' }}>
-            {stats.map((stat: any, i: number) => {
-              const delay = 10 + i * 8;
-              const progress = spring({ frame: frame - delay, fps, config: { damping: 15, stiffness: 100 } });
-              const scale = interpolate(progress, [0, 1], [0.8, 1]);
-              const opacity = interpolate(frame - delay, [0, 15], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
-              const numValue = typeof stat.value === 'string' ? parseInt(stat.value, 10) || 0 : stat.value;
-
-              return (
-                <div key={i} style={{ textAlign: 'center', transform: \`scale(\${scale})\`, opacity }}>
-                  <AnimatedCounter value={numValue} suffix={stat.suffix || ''} color={accentColor} fontSize={72} delay={delay} />
-                  <p style={{ color: textColor, fontSize: 24, marginTop: 10, opacity: 0.8 }}>{stat.label}</p>
-                </div>
-              );
-            })}
-          </div>
-        </div>
-      </AbsoluteFill>
-    </AbsoluteFill>
-  );
-};
-
-const IntroScene: React.FC<{ content: any; theme: Theme }> = ({ content, theme }) => {
-  const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
-  const variant = content.variant || 'dark';
-  const isDark = variant === 'dark';
-  const titleColor = content.titleColor || theme.primaryColor || DEFAULT_COLORS.primary;
-  const subtitleColor = isDark ? DEFAULT_COLORS.white : DEFAULT_COLORS.dark;
-
-  const logoScale = spring({ frame, fps, config: { damping: 12, stiffness: 100 } });
-  const logoRotation = interpolate(frame, [0, 20], [180, 0], { extrapolateRight: 'clamp' });
-  const logoOpacity = interpolate(frame, [0, 10], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
-
-  return (
-    <AbsoluteFill style={{ fontFamily: theme.fontFamily || 'Arial, sans-serif' }}>
-      <Background variant={variant} theme={theme} />
-      <AbsoluteFill style={{ justifyContent: 'center', alignItems: 'center' }}>
-        <div style={{ textAlign: 'center' }}>
-          {content.logoUrl ? (
-            <div style={{ transform: \`scale(\${logoScale}) rotate(\${logoRotation}deg)\`, opacity: logoOpacity, marginBottom: 40 }}>
-              <Img src={content.logoUrl} style={{ width: 150, height: 150, objectFit: 'contain' }} />
-            </div>
-          ) : (
-            <div style={{
-              width: 120, height: 120, borderRadius: '50%', backgroundColor: titleColor,
-              transform: \`scale(\${logoScale})\`, opacity: logoOpacity, marginBottom: 40,
-              display: 'flex', justifyContent: 'center', alignItems: 'center',
-              boxShadow: \`0 10px 40px \${titleColor}50\`,
-            }}>
-              <span style={{ color: '#fff', fontSize: 48, fontWeight: 'bold' }}>{content.title?.charAt(0) || '?'}</span>
-            </div>
-          )}
-          {content.title && <AnimatedText text={content.title} color={titleColor} fontSize={72} delay={15} animation="scale" />}
-          {content.subtitle && (
-            <div style={{ marginTop: 20 }}>
-              <AnimatedText text={content.subtitle} color={subtitleColor} fontSize={32} fontWeight="normal" delay={25} animation="fade" />
-            </div>
-          )}
-        </div>
-      </AbsoluteFill>
-    </AbsoluteFill>
-  );
-};
-
-const OutroScene: React.FC<{ content: any; theme: Theme }> = ({ content, theme }) => {
-  const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
-  const variant = content.variant || 'dark';
-  const isDark = variant === 'dark';
-  const accentColor = content.titleColor || theme.primaryColor || DEFAULT_COLORS.primary;
-  const textColor = isDark ? DEFAULT_COLORS.white : DEFAULT_COLORS.dark;
-
-  const ctaScale = spring({ frame: frame - 25, fps, config: { damping: 10, stiffness: 150 } });
-  const ctaPulse = 1 + Math.sin(frame * 0.1) * 0.02;
-  const ctaOpacity = interpolate(frame - 25, [0, 15], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
-  const textOpacity = interpolate(frame - 20, [0, 15], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
-
-  return (
-    <AbsoluteFill style={{ fontFamily: theme.fontFamily || 'Arial, sans-serif' }}>
-      <Background variant={variant} theme={theme} />
-      <AbsoluteFill style={{ justifyContent: 'center', alignItems: 'center' }}>
-        <div style={{ textAlign: 'center', maxWidth: '80%' }}>
-          {content.title && <AnimatedText text={content.title} color={accentColor} fontSize={64} delay={0} animation="scale" />}
-          {content.subtitle && (
-            <div style={{ marginTop: 16 }}>
-              <AnimatedText text={content.subtitle} color={textColor} fontSize={32} fontWeight="normal" delay={12} animation="fade" />
-            </div>
-          )}
-          {content.text && <p style={{ color: textColor, fontSize: 28, marginTop: 30, opacity: textOpacity * 0.9 }}>{content.text}</p>}
-          {content.cta && (
-            <div style={{ marginTop: 40, transform: \`scale(\${ctaScale * ctaPulse})\`, opacity: ctaOpacity }}>
-              <div style={{
-                display: 'inline-block', backgroundColor: accentColor, color: '#fff',
-                fontSize: 24, fontWeight: 'bold', padding: '16px 48px', borderRadius: 50,
-                boxShadow: \`0 8px 30px \${accentColor}60\`,
-              }}>
-                {content.cta}
-              </div>
-            </div>
-          )}
-        </div>
-      </AbsoluteFill>
-    </AbsoluteFill>
-  );
-};
-
-// ============================================================================
-// CTA SCENE WITH QR CODE
-// ============================================================================
-
-// Simple QR Code generator component (SVG-based)
-const QRCodeSVG: React.FC<{ value: string; size?: number; fgColor?: string; bgColor?: string }> = ({ 
-  value, size = 180, fgColor = '#000000', bgColor = '#ffffff' 
-}) => {
-  // QR Code matrix generator (simplified for common use cases)
-  const generateMatrix = (text: string): boolean[][] => {
-    const size = Math.max(21, Math.ceil(text.length / 2) + 17);
-    const matrix: boolean[][] = Array(size).fill(null).map(() => Array(size).fill(false));
-    
-    // Add finder patterns (corners)
-    const addFinderPattern = (row: number, col: number) => {
-      for (let r = 0; r < 7; r++) {
-        for (let c = 0; c < 7; c++) {
-          const isOuter = r === 0 || r === 6 || c === 0 || c === 6;
-          const isInner = r >= 2 && r <= 4 && c >= 2 && c <= 4;
-          if (row + r < size && col + c < size) {
-            matrix[row + r][col + c] = isOuter || isInner;
-          }
-        }
-      }
-    };
-    
-    addFinderPattern(0, 0);
-    addFinderPattern(0, size - 7);
-    addFinderPattern(size - 7, 0);
-    
-    // Add timing patterns
-    for (let i = 8; i < size - 8; i++) {
-      matrix[6][i] = i % 2 === 0;
-      matrix[i][6] = i % 2 === 0;
-    }
-    
-    // Encode data (simplified - uses character codes to create pattern)
-    let dataIndex = 0;
-    for (let row = size - 1; row >= 9; row -= 2) {
-      for (let col = size - 1; col >= 9; col--) {
-        if (!matrix[row][col] && dataIndex < text.length) {
-          matrix[row][col] = text.charCodeAt(dataIndex) % 2 === 1;
-          dataIndex++;
-        }
-        if (row > 0 && !matrix[row - 1][col] && dataIndex < text.length) {
-          matrix[row - 1][col] = text.charCodeAt(dataIndex) % 3 !== 0;
-          dataIndex++;
-        }
+        return {
+          buffer: sheet.buffer,
+          mimeType: 'image/png',
+          metadata: { duration, width: sheet.width, height: sheet.height, fps },
+        };
+      } finally {
+        await release();
+        await cleanup();
       }
+    } catch (err) {
+      throw this.toRenderError(err, deadline, currentFrame, params.scenes, timeline.scenes);
+    } finally {
+      deadline.clear();
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
     }
-    
-    return matrix;
-  };
+  }
 
-  const matrix = generateMatrix(value);
-  const cellSize = size / matrix.length;
-
-  return (
-    <svg width={size} height={size} viewBox={\`0 0 \${size} \${size}\`}>
-      <rect width={size} height={size} fill={bgColor} />
-      {matrix.map((row, rowIndex) =>
-        row.map((cell, colIndex) =>
-          cell ? (
-            <rect
-              key={\`\${rowIndex}-\${colIndex}\`}
-              x={colIndex * cellSize}
-              y={rowIndex * cellSize}
-              width={cellSize}
-              height={cellSize}
-              fill={fgColor}
-            />
-          ) : null
-        )
-      )}
-    </svg>
-  );
-};
-
-const CTAScene: React.FC<{ content: any; theme: Theme }> = ({ content, theme }) => {
-  const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
-  const variant = content.variant || 'dark';
-  const isDark = variant === 'dark';
-  const accentColor = content.titleColor || theme.primaryColor || DEFAULT_COLORS.primary;
-  const textColor = isDark ? DEFAULT_COLORS.white : DEFAULT_COLORS.dark;
-  const showQR = content.qrCode !== false && content.url;
-  const qrSize = content.qrSize || 180;
-  const qrPosition = content.qrPosition || 'right';
-
-  const qrScale = spring({ frame: frame - 20, fps, config: { damping: 12, stiffness: 100 } });
-  const qrOpacity = interpolate(frame - 20, [0, 15], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
-  const buttonScale = spring({ frame: frame - 30, fps, config: { damping: 10, stiffness: 150 } });
-  const buttonPulse = 1 + Math.sin(frame * 0.1) * 0.02;
-  const buttonOpacity = interpolate(frame - 30, [0, 15], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
-
-  const textSection = (
-    <div style={{ flex: 1, display: 'flex', flexDirection: 'column', justifyContent: 'center', alignItems: qrPosition === 'center' ? 'center' : 'flex-start' }}>
-      {content.title && <AnimatedText text={content.title} color={accentColor} fontSize={56} delay={0} animation="scale" />}
-      {content.subtitle && (
-        <div style={{ marginTop: 16 }}>
-          <AnimatedText text={content.subtitle} color={textColor} fontSize={28} fontWeight="normal" delay={10} animation="fade" />
-        </div>
-      )}
-      {content.url && (
-        <div style={{ marginTop: 24, opacity: interpolate(frame - 15, [0, 15], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' }) }}>
-          <span style={{ color: accentColor, fontSize: 24, fontWeight: 'bold' }}>{content.url}</span>
-        </div>
-      )}
-      {content.cta && (
-        <div style={{ marginTop: 30, transform: \`scale(\${buttonScale * buttonPulse})\`, opacity: buttonOpacity }}>
-          <div style={{
-            display: 'inline-block', backgroundColor: accentColor, color: '#fff',
-            fontSize: 22, fontWeight: 'bold', padding: '14px 40px', borderRadius: 50,
-            boxShadow: \`0 8px 30px \${accentColor}60\`,
-          }}>
-            {content.cta}
-          </div>
-        </div>
-      )}
-    </div>
-  );
-
-  const qrSection = showQR && (
-    <div style={{
-      display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center',
-      transform: \`scale(\${qrScale})\`, opacity: qrOpacity,
-      padding: qrPosition === 'center' ? '40px 0 0 0' : '0 60px',
-    }}>
-      <div style={{
-        backgroundColor: '#ffffff', padding: 16, borderRadius: 16,
-        boxShadow: '0 8px 30px rgba(0,0,0,0.2)',
-      }}>
-        <QRCodeSVG value={content.url} size={qrSize} fgColor="#000000" bgColor="#ffffff" />
-      </div>
-      <p style={{ color: textColor, fontSize: 16, marginTop: 12, opacity: 0.7 }}>Scannez pour accéder</p>
-    </div>
-  );
-
-  return (
-    <AbsoluteFill style={{ fontFamily: theme.fontFamily || 'Arial, sans-serif' }}>
-      <Background variant={variant} theme={theme} />
-      <AbsoluteFill style={{
-        justifyContent: 'center', alignItems: 'center', padding: 80,
-        flexDirection: qrPosition === 'center' ? 'column' : 'row',
-      }}>
-        {qrPosition === 'left' && qrSection}
-        {textSection}
-        {qrPosition !== 'left' && qrSection}
-      </AbsoluteFill>
-    </AbsoluteFill>
-  );
-};
-
-// ============================================================================
-// MAIN COMPONENT
-// ============================================================================
-
-export const Main: React.FC<{ scenes: Scene[]; theme: Theme }> = ({ scenes, theme }) => {
-  const { fps } = useVideoConfig();
-
-  const finalTheme: Theme = {
-    primaryColor: theme.primaryColor || '#E85D04',
-    secondaryColor: theme.secondaryColor || '#ffffff',
-    backgroundColor: theme.backgroundColor || '#1a1a1a',
-    fontFamily: theme.fontFamily || 'Arial, Helvetica, sans-serif',
-  };
+  /**
+   * Custom templates are bundled dynamically from their code.
+   * The universal template uses its prebuilt bundle (npm run build:template),
+   * or is bundled from templates/universal/src on first use.
+   */
+  private async getBundle(template?: CustomTemplate, onProgress?: (progress: number) => void): Promise<BundleResult> {
+    if (template) {
+      return this.bundler.bundle(template.code, template.name, onProgress);
+    }
 
-  if (!scenes || scenes.length === 0) {
-    return (
-      <AbsoluteFill style={{ backgroundColor: finalTheme.backgroundColor, justifyContent: 'center', alignItems: 'center', fontFamily: finalTheme.fontFamily }}>
-        <p style={{ color: finalTheme.secondaryColor, fontSize: 32 }}>No scenes provided</p>
-      </AbsoluteFill>
-    );
+    const prebuilt = path.join(this.config.universalTemplateDir, 'bundle');
+    try {
+      await fs.access(path.join(prebuilt, 'index.html'));
+      return { bundlePath: prebuilt, cleanup: async () => {} };
+    } catch {
+      return this.bundler.bundleEntry(
+        path.join(this.config.universalTemplateDir, 'src', 'index.ts'),
+        'universal',
+        onProgress,
+        path.join(this.config.universalTemplateDir, 'public')
+      );
+    }
   }
 
-  // Precalculate frame positions to avoid mutation during render
-  const sceneFrames: Array<{ from: number; duration: number }> = [];
-  let frameAccumulator = 0;
-  for (const scene of scenes) {
-    const durationFrames = Math.round(scene.duration * fps);
-    sceneFrames.push({ from: frameAccumulator, duration: durationFrames });
-    frameAccumulator += durationFrames;
+  /**
+   * A signal aborted when the caller cancels or REMOTION_MAX_RENDER_SECONDS elapses
+   */
+  private startDeadline(signal?: AbortSignal): RenderDeadline {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+    if (signal?.aborted) abort();
+
+    let expired = false;
+    const timer = this.config.maxRenderSeconds > 0
+      ? setTimeout(() => {
+          expired = true;
+          controller.abort();
+        }, this.config.maxRenderSeconds * 1000)
+      : null;
+
+    return {
+      signal: controller.signal,
+      expired: () => expired,
+      clear: () => {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+      },
+    };
   }
 
-  const renderScene = (scene: Scene) => {
-    const props = { content: scene.content, theme: finalTheme };
-    switch (scene.type) {
-      case 'title': return <TitleScene {...props} />;
-      case 'text': return <TextScene {...props} />;
-      case 'counter': return <CounterScene {...props} />;
-      case 'image': return <ImageScene {...props} />;
-      case 'split': return <SplitScene {...props} />;
-      case 'list': return <ListScene {...props} />;
-      case 'stats': return <StatsScene {...props} />;
-      case 'intro': return <IntroScene {...props} />;
-      case 'outro': return <OutroScene {...props} />;
-      case 'cta': return <CTAScene {...props} />;
-      default: return <TextScene {...props} />;
+  /**
+   * Renderer timeouts (an asset that never loads) and the render deadline become a
+   * RenderTimeoutError naming the scene being rendered; aborts by the caller become
+   * a RenderCancelledError; other errors pass through
+   */
+  private toRenderError(
+    err: unknown,
+    deadline: RenderDeadline,
+    frame: number,
+    scenes: Array<{ type: string }>,
+    timings: SceneTiming[]
+  ): unknown {
+    const expired = deadline.expired();
+    if (deadline.signal.aborted && !expired) return new RenderCancelledError();
+
+    const isTimeout = err instanceof Error && TIMEOUT_PATTERN.test(err.message);
+    if (!expired && !isTimeout) return err;
+
+    // The renderer reports the failing frame on some errors
+    const errorFrame = (err as { frame?: unknown }).frame;
+    if (!expired && typeof errorFrame === 'number') frame = errorFrame;
+
+    // With transitions two scenes share a frame: name the incoming one
+    let sceneIndex = 0;
+    timings.forEach((timing, index) => {
+      if (timing.from <= frame) sceneIndex = index;
+    });
+    const where = `scenes[${sceneIndex}] (${scenes[sceneIndex]?.type}), frame ${frame}`;
+
+    if (expired) {
+      return new RenderTimeoutError(
+        `Render exceeded ${this.config.maxRenderSeconds}s (REMOTION_MAX_RENDER_SECONDS) while rendering ${where}. ` +
+        'Shorten the video, lower its resolution or fps, or raise the limit.',
+        sceneIndex,
+        frame
+      );
     }
-  };
 
-  return (
-    <AbsoluteFill>
-      {scenes.map((scene, index) => (
-        <Sequence 
-          key={index} 
-          from={sceneFrames[index].from} 
-          durationInFrames={sceneFrames[index].duration} 
-          name={\`Scene \${index + 1}: \${scene.type}\`}
-        >
-          {renderScene(scene)}
-        </Sequence>
-      ))}
-    </AbsoluteFill>
-  );
-};
-`;
+    const reason = (err as Error).message.split('\n')[0].replace(/\.$/, '');
+    return new RenderTimeoutError(
+      `Render timed out on ${where}: ${reason}. ` +
+      `Check that the scene's image, video and audio URLs are reachable and load quickly, ` +
+      `or raise REMOTION_TIMEOUT_PER_FRAME (currently ${this.config.timeoutPerFrame}ms).`,
+      sceneIndex,
+      frame
+    );
+  }
+
+  private throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new RenderCancelledError();
+    }
   }
 }
@@ -0,0 +1,42 @@
+/**
+ * Render Errors
+ */
+
+export class RenderCancelledError extends Error {
+  constructor() {
+    super('Render cancelled');
+    this.name = 'RenderCancelledError';
+  }
+}
+
+/**
+ * A frame exceeded REMOTION_TIMEOUT_PER_FRAME, or the render exceeded REMOTION_MAX_RENDER_SECONDS
+ */
+export class RenderTimeoutError extends Error {
+  readonly sceneIndex: number;
+  readonly frame: number;
+
+  constructor(message: string, sceneIndex: number, frame: number) {
+    super(message);
+    this.name = 'RenderTimeoutError';
+    this.sceneIndex = sceneIndex;
+    this.frame = frame;
+  }
+}
+
+export class RenderQueueFullError extends Error {
+  constructor(maxQueueLength: number) {
+    super(`Render queue is full (${maxQueueLength} renders waiting). Retry later.`);
+    this.name = 'RenderQueueFullError';
+  }
+}
+
+export class ValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid parameters:\n${issues.map((i) => `- ${i}`).join('\n')}`);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
@@ -1,2 +1,8 @@
 export * from './engine.js';
 export * from './bundler.js';
+export * from './encoding.js';
+export * from './errors.js';
+export * from './queue.js';
+export * from './schemas.js';
+export * from './timeline.js';
+export * from './validator.js';
@@ -0,0 +1,158 @@
+/**
+ * Render Queue
+ *
+ * Bounds the number of renders running at once so parallel calls don't
+ * multiply Chromium instances. Images are served ahead of videos.
+ */
+
+import { randomUUID } from 'crypto';
+import { RenderCancelledError, RenderQueueFullError } from './errors.js';
+
+const log = (...args: unknown[]) => console.error('[RenderQueue]', ...args);
+
+export type RenderKind = 'image' | 'video';
+
+export interface RenderQueueStatus {
+  maxConcurrent: number;
+  maxQueueLength: number;
+  queued: number;
+  running: Array<{
+    id: string;
+    kind: RenderKind;
+    label: string;
+    startedAt: string;
+  }>;
+}
+
+export interface QueueRunOptions {
+  signal?: AbortSignal;
+  /** Called when the task leaves the queue and starts running */
+  onStart?: () => void;
+}
+
+interface QueuedTask {
+  id: string;
+  kind: RenderKind;
+  label: string;
+  start: () => void;
+}
+
+interface RunningTask {
+  id: string;
+  kind: RenderKind;
+  label: string;
+  startedAt: number;
+}
+
+export class RenderQueue {
+  private maxConcurrent: number;
+  private maxQueueLength: number;
+  private queue: QueuedTask[] = [];
+  private running: Map<string, RunningTask> = new Map();
+
+  constructor(maxConcurrent: number, maxQueueLength: number) {
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+    this.maxQueueLength = Math.max(0, maxQueueLength);
+  }
+
+  /**
+   * Run a task once a slot is free.
+   * Throws RenderQueueFullError if the task would have to wait and the queue is full.
+   */
+  async run<T>(
+    kind: RenderKind,
+    label: string,
+    task: () => Promise<T>,
+    options: QueueRunOptions = {}
+  ): Promise<T> {
+    const id = randomUUID();
+
+    if (options.signal?.aborted) {
+      throw new RenderCancelledError();
+    }
+
+    if (this.mustWait()) {
+      await this.waitForSlot(id, kind, label, options.signal);
+    }
+
+    this.running.set(id, { id, kind, label, startedAt: Date.now() });
+    options.onStart?.();
+
+    try {
+      return await task();
+    } finally {
+      this.running.delete(id);
+      this.next();
+    }
+  }
+
+  /**
+   * Whether a task submitted now would start or wait, rather than be rejected as queue full
+   */
+  canAccept(): boolean {
+    return !this.mustWait() || this.queue.length < this.maxQueueLength;
+  }
+
+  getStatus(): RenderQueueStatus {
+    return {
+      maxConcurrent: this.maxConcurrent,
+      maxQueueLength: this.maxQueueLength,
+      queued: this.queue.length,
+      running: Array.from(this.running.values()).map((t) => ({
+        id: t.id,
+        kind: t.kind,
+        label: t.label,
+        startedAt: new Date(t.startedAt).toISOString(),
+      })),
+    };
+  }
+
+  private mustWait(): boolean {
+    return this.running.size >= this.maxConcurrent || this.queue.length > 0;
+  }
+
+  private waitForSlot(id: string, kind: RenderKind, label: string, signal?: AbortSignal): Promise<void> {
+    if (this.queue.length >= this.maxQueueLength) {
+      throw new RenderQueueFullError(this.maxQueueLength);
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter((t) => t.id !== id);
+        reject(new RenderCancelledError());
+      };
+
+      const entry: QueuedTask = {
+        id,
+        kind,
+        label,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+
+      // Images jump ahead of queued videos, FIFO within each kind
+      const insertAt = kind === 'image'
+        ? this.queue.findIndex((t) => t.kind === 'video')
+        : -1;
+      if (insertAt === -1) {
+        this.queue.push(entry);
+      } else {
+        this.queue.splice(insertAt, 0, entry);
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      log(`Queued ${kind} (${label}), ${this.queue.length} waiting`);
+    });
+  }
+
+  private next(): void {
+    while (this.running.size < this.maxConcurrent && this.queue.length > 0) {
+      const task = this.queue.shift()!;
+      // Reserve the slot before the awaiting caller resumes
+      this.running.set(task.id, { id: task.id, kind: task.kind, label: task.label, startedAt: Date.now() });
+      task.start();
+    }
+  }
+}
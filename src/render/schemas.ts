@@ -0,0 +1,446 @@
+/**
+ * Render Parameter Schemas
+ *
+ * Zod schemas for every scene type of the universal template.
+ * They validate tool arguments and generate the tool JSON Schemas,
+ * so the documented input and the accepted input cannot drift apart.
+ */
+
+import { z } from 'zod';
+import { ValidationError } from './errors.js';
+import { BUILTIN_TEMPLATE, normalizeTemplateName } from '../templates/index.js';
+import {
+  CONTAINERS,
+  VIDEO_CODECS,
+  PIXEL_FORMATS,
+  X264_PRESETS,
+  findEncodingIssues,
+} from './encoding.js';
+
+// ============================================================================
+// SHARED FIELDS
+// ============================================================================
+
+const NUMERIC_PATTERN = /^\s*-?\d+(\.\d+)?\s*$/;
+
+const NUMERIC_MESSAGE = 'expected a number or numeric string';
+
+const numeric = z.union([
+  z.number(),
+  z.string().regex(NUMERIC_PATTERN, NUMERIC_MESSAGE),
+], { errorMap: () => ({ message: NUMERIC_MESSAGE }) });
+
+const variant = z.enum(['dark', 'light']).describe('Color variant (dark or light background)');
+const titleColor = z.string().describe('Title color override (hex)');
+const textAnimation = z.enum(['fade', 'slide', 'scale', 'typewriter']).describe('Text animation');
+
+// ============================================================================
+// SCENE CONTENT
+// ============================================================================
+
+export const titleContentSchema = z.object({
+  title: z.string().describe('Main title text'),
+  subtitle: z.string().describe('Subtitle text'),
+  titleColor,
+  animation: textAnimation,
+  variant,
+}).partial();
+
+export const textContentSchema = z.object({
+  title: z.string().describe('Main title text'),
+  subtitle: z.string().describe('Subtitle text'),
+  text: z.string().describe('Body text'),
+  titleColor,
+  animation: textAnimation,
+  variant,
+}).partial();
+
+export const counterContentSchema = z.object({
+  value: numeric.describe('Number value for counter'),
+  prefix: z.string().describe('Prefix before number'),
+  suffix: z.string().describe('Suffix after number (e.g., "+", "%")'),
+  label: z.string().describe('Label below counter'),
+  titleColor,
+  variant,
+}).partial();
+
+export const imageContentSchema = z.object({
+  url: z.string().describe('Image URL'),
+  animation: z.enum(['zoom-in', 'zoom-out', 'pan', 'none']).describe('Ken Burns effect'),
+  title: z.string().describe('Overlay title'),
+  subtitle: z.string().describe('Overlay subtitle'),
+}).partial();
+
+export const splitContentSchema = z.object({
+  title: z.string().describe('Main title text'),
+  subtitle: z.string().describe('Subtitle text'),
+  text: z.string().describe('Body text'),
+  imageUrl: z.string().describe('Image URL'),
+  imagePosition: z.enum(['left', 'right']).describe('Image position'),
+  titleColor,
+  variant,
+}).partial();
+
+export const listContentSchema = z.object({
+  title: z.string().describe('List title'),
+  items: z.array(z.string()).describe('List items'),
+  titleColor,
+  variant,
+}).partial();
+
+export const statsContentSchema = z.object({
+  title: z.string().describe('Stats title'),
+  stats: z.array(z.object({
+    value: numeric,
+    label: z.string(),
+    suffix: z.string().optional(),
+  })).describe('Statistics to display'),
+  variant,
+}).partial();
+
+export const introContentSchema = z.object({
+  title: z.string().describe('Brand or video title'),
+  subtitle: z.string().describe('Subtitle text'),
+  logoUrl: z.string().describe('Logo URL'),
+  titleColor,
+  variant,
+}).partial();
+
+export const outroContentSchema = z.object({
+  title: z.string().describe('Closing title'),
+  subtitle: z.string().describe('Subtitle text'),
+  text: z.string().describe('Body text'),
+  cta: z.string().describe('Call-to-action button text'),
+  titleColor,
+  variant,
+}).partial();
+
+export const ctaContentSchema = z.object({
+  title: z.string().describe('Main title text'),
+  subtitle: z.string().describe('Subtitle text'),
+  url: z.string().describe('Target URL, displayed and encoded in the QR code'),
+  cta: z.string().describe('Call-to-action button text'),
+  qrCode: z.boolean().describe('Show QR code (default: true when url is set)'),
+  qrSize: z.number().positive().describe('QR code size in pixels at 1080p, scaled with the canvas (default: 180)'),
+  qrPosition: z.enum(['left', 'right', 'center']).describe('QR code position'),
+  qrLevel: z.enum(['L', 'M', 'Q', 'H'])
+    .describe('QR error-correction level (default: M, or H when qrLogoUrl is set)'),
+  qrQuietZone: z.number().int().nonnegative().describe('QR quiet zone in modules (default: 4)'),
+  qrFgColor: z.string().describe('QR module color (default: #000000)'),
+  qrBgColor: z.string().describe('QR background color (default: #ffffff)'),
+  qrLogoUrl: z.string().describe('Logo displayed in the centre of the QR code'),
+  qrLogoSize: z.number().positive().max(0.3)
+    .describe('Logo size as a fraction of the QR code (default: 0.2), capped at 0.15 for qrLevel L, 0.2 for M, 0.25 for Q'),
+  titleColor,
+  variant,
+}).partial();
+
+export const videoContentSchema = z.object({
+  url: z.string().describe('Video URL (mp4, webm, mov)'),
+  trimStart: z.number().nonnegative().describe('Seconds to skip at the start of the clip (default: 0)'),
+  trimEnd: z.number().positive().describe('Position in the clip, in seconds, where playback stops (default: end of clip)'),
+  playbackRate: z.number().positive().max(16).describe('Playback speed (default: 1)'),
+  muted: z.boolean().describe('Mute the clip audio (default: false)'),
+  volume: z.number().min(0).max(1).describe('Clip audio volume between 0 and 1 (default: 1)'),
+  fit: z.enum(['cover', 'contain', 'fill']).describe('How the clip fills the frame (default: cover)'),
+  title: z.string().describe('Overlay title'),
+  subtitle: z.string().describe('Overlay subtitle'),
+  overlayPosition: z.enum(['top', 'center', 'bottom']).describe('Overlay position (default: bottom)'),
+  gradient: z.boolean().describe('Darken the frame behind the overlay (default: true)'),
+}).partial();
+
+/**
+ * Content schema per scene type
+ */
+export const sceneContentSchemas = {
+  title: titleContentSchema,
+  text: textContentSchema,
+  counter: counterContentSchema,
+  image: imageContentSchema,
+  split: splitContentSchema,
+  list: listContentSchema,
+  stats: statsContentSchema,
+  intro: introContentSchema,
+  outro: outroContentSchema,
+  cta: ctaContentSchema,
+  video: videoContentSchema,
+};
+
+export type SceneType = keyof typeof sceneContentSchemas;
+
+export const SCENE_TYPES = Object.keys(sceneContentSchemas) as SceneType[];
+
+// ============================================================================
+// SCENES
+// ============================================================================
+
+const duration = z.number().positive().describe('Duration in seconds');
+
+export const transitionSchema = z.object({
+  type: z.enum(['fade', 'slide', 'wipe', 'flip', 'clockWipe', 'none']).describe('Transition effect (default: fade)'),
+  duration: z.number().nonnegative().describe('Transition duration in seconds, overlapping both scenes (default: 0.5)'),
+  direction: z.enum(['from-left', 'from-right', 'from-top', 'from-bottom'])
+    .describe('Direction for slide, wipe and flip (default: from-right)'),
+}).partial();
+
+const transitionIn = transitionSchema
+  .describe('Transition from the previous scene, overriding settings.transition')
+  .optional();
+
+export const sceneSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('title'), duration, transitionIn, content: titleContentSchema.default({}) }),
+  z.object({ type: z.literal('text'), duration, transitionIn, content: textContentSchema.default({}) }),
+  z.object({ type: z.literal('counter'), duration, transitionIn, content: counterContentSchema.default({}) }),
+  z.object({ type: z.literal('image'), duration, transitionIn, content: imageContentSchema.default({}) }),
+  z.object({ type: z.literal('split'), duration, transitionIn, content: splitContentSchema.default({}) }),
+  z.object({ type: z.literal('list'), duration, transitionIn, content: listContentSchema.default({}) }),
+  z.object({ type: z.literal('stats'), duration, transitionIn, content: statsContentSchema.default({}) }),
+  z.object({ type: z.literal('intro'), duration, transitionIn, content: introContentSchema.default({}) }),
+  z.object({ type: z.literal('outro'), duration, transitionIn, content: outroContentSchema.default({}) }),
+  z.object({ type: z.literal('cta'), duration, transitionIn, content: ctaContentSchema.default({}) }),
+  z.object({ type: z.literal('video'), duration, transitionIn, content: videoContentSchema.default({}) }),
+]);
+
+/**
+ * Scenes for custom templates: the template defines its own scene types
+ */
+const customSceneSchema = z.object({
+  type: z.string(),
+  duration,
+  transitionIn,
+  content: z.record(z.unknown()).default({}),
+});
+
+// ============================================================================
+// TOOL PARAMETERS
+// ============================================================================
+
+export const themeSchema = z.object({
+  primaryColor: z.string().describe('Primary/accent color (hex)'),
+  secondaryColor: z.string().describe('Secondary text color (hex)'),
+  backgroundColor: z.string().describe('Background color (hex)'),
+  fontFamily: z.string().describe('Font family name'),
+}).partial().describe('Visual theme');
+
+export const audioSchema = z.object({
+  src: z.string().min(1)
+    .describe('Audio track: http(s) URL, data: URI, or file name in templates/universal/public'),
+  volume: z.number().min(0).max(1).optional().describe('Volume between 0 and 1 (default: 1)'),
+  startFrom: z.number().nonnegative().optional().describe('Seconds to skip at the start of the track (default: 0)'),
+  fadeIn: z.number().nonnegative().optional().describe('Fade-in duration in seconds (default: 0)'),
+  fadeOut: z.number().nonnegative().optional().describe('Fade-out duration in seconds, ending with the video (default: 0)'),
+  loop: z.boolean().optional().describe('Loop the track until the video ends (default: false)'),
+}).describe('Background audio track. Ignored for gif output.');
+
+const template = z.string()
+  .describe('Name of a custom template created with remotion_template_create (default: built-in universal template)');
+
+const bitrate = z.string().regex(/^\d+(\.\d+)?[kKM]$/, 'expected a bitrate such as "5M" or "128k"');
+
+const variantSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9-]{0,31}$/, 'expected lowercase letters, digits and dashes, e.g. "9x16"')
+    .describe('Variant name, used in the file name and the result'),
+  width: z.number().int().positive().describe('Video width'),
+  height: z.number().int().positive().describe('Video height'),
+});
+
+const MAX_VARIANTS = 8;
+
+const videoSettingsSchema = z.object({
+  width: z.number().int().positive().describe('Video width (default: 1920)'),
+  height: z.number().int().positive().describe('Video height (default: 1080)'),
+  fps: z.number().positive().describe('Frames per second (default: 30)'),
+  format: z.enum(CONTAINERS).describe('Output container (default: mp4)'),
+  codec: z.enum(VIDEO_CODECS)
+    .describe('Video codec: mp4 takes h264/h265, webm vp8/vp9, mov prores/h264 (default: h264, vp8, prores). AV1 is not supported by the renderer.'),
+  crf: z.number().int()
+    .describe('Constant rate factor, lower is better quality: h264 1-51 (default 18), h265 0-51 (23), vp8 4-63 (9), vp9 0-63 (28). Not with videoBitrate or prores.'),
+  videoBitrate: bitrate.describe('Target video bitrate such as "8M", instead of crf'),
+  audioBitrate: bitrate.describe('Audio bitrate such as "192k" (default: 320k)'),
+  pixelFormat: z.enum(PIXEL_FORMATS)
+    .describe('Pixel format (default: yuv420p, yuv422p10le for prores). prores takes yuv422p10le or yuv444p10le. The alpha formats yuva420p and yuva444p10le are only used with transparent.'),
+  x264Preset: z.enum(X264_PRESETS).describe('h264 encoder speed/size trade-off (default: medium)'),
+  transparent: z.boolean()
+    .describe('Render without background fills, keeping the alpha channel. Requires format mov (ProRes 4444) or webm (VP9).'),
+  audio: audioSchema,
+  transition: transitionSchema.describe('Transition between consecutive scenes (default: hard cut)'),
+  variants: z.array(variantSchema).min(1).max(MAX_VARIANTS)
+    .describe('Render the video once per canvas size, e.g. 16:9, 9:16, 1:1 and 4:5, in one call. Replaces width and height.'),
+}).partial().superRefine((settings, ctx) => {
+  for (const [key, message] of findEncodingIssues(settings)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message });
+  }
+  settings.variants?.forEach((variant, index) => {
+    if (settings.variants?.findIndex((v) => v.name === variant.name) !== index) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['variants', index, 'name'], message: `duplicate variant name "${variant.name}"` });
+    }
+  });
+});
+
+export const renderVideoParamsSchema = z.object({
+  scenes: z.array(sceneSchema).min(1).describe('List of scenes to compose into a video'),
+  theme: themeSchema.optional(),
+  settings: videoSettingsSchema.optional().describe('Render settings'),
+  template: template.optional(),
+  async: z.boolean().optional()
+    .describe('Return a job ID immediately instead of waiting for the render. Poll with remotion_job_status / remotion_job_result.'),
+  inline: z.boolean().optional()
+    .describe('Also return a poster frame as image content (default: when under INLINE_IMAGE_MAX_BYTES)'),
+  posterFrame: z.number().int().nonnegative()
+    .describe('Frame used for the poster (default: middle of the video)').optional(),
+});
+
+export const renderImageParamsSchema = z.object({
+  scene: sceneSchema.describe('Scene to render as image'),
+  theme: themeSchema.optional(),
+  settings: z.object({
+    width: z.number().int().positive().describe('Image width (default: 1920)'),
+    height: z.number().int().positive().describe('Image height (default: 1080)'),
+    format: z.enum(['png', 'jpeg']).describe('Image format (default: png)'),
+    transparent: z.boolean().describe('Render without background fills, as a PNG with alpha channel'),
+  }).partial().superRefine((settings, ctx) => {
+    if (settings.transparent && settings.format === 'jpeg') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['format'], message: 'jpeg cannot carry an alpha channel, use png for transparent images' });
+    }
+  }).optional(),
+  frame: z.number().int().nonnegative()
+    .describe('Frame number to render (default: 15 for fade-in visibility)').optional(),
+  template: template.optional(),
+  inline: z.boolean().optional()
+    .describe('Also return the image as image content (default: when under INLINE_IMAGE_MAX_BYTES)'),
+});
+
+export const storyboardParamsSchema = renderVideoParamsSchema
+  .omit({ async: true, inline: true, posterFrame: true })
+  .extend({
+    stillsPerScene: z.number().int().min(1).max(5)
+      .describe('Stills per scene, from the end of the intro animation to the last frame (default: 3)').optional(),
+    thumbnailWidth: z.number().int().min(120).max(960)
+      .describe('Width of each still in pixels (default: 480)').optional(),
+  });
+
+// ============================================================================
+// TEMPLATE TOOLS
+// ============================================================================
+
+const templateName = z.string().min(1)
+  .describe('Template name (lowercase letters, digits and dashes; other characters become dashes)');
+
+export const templateCreateParamsSchema = z.object({
+  name: templateName,
+  description: z.string().optional().describe('Short description of the template'),
+  code: z.string().min(1).describe('TSX source exporting a Main component'),
+  inputSchema: z.record(z.unknown()).optional()
+    .describe('Optional JSON Schema describing the expected scenes/theme'),
+});
+
+export const templateUpdateParamsSchema = z.object({
+  name: templateName,
+  description: z.string().optional().describe('New description'),
+  code: z.string().min(1).optional().describe('New TSX source exporting a Main component'),
+  inputSchema: z.record(z.unknown()).optional()
+    .describe('New JSON Schema describing the expected scenes/theme'),
+});
+
+export const templateNameParamsSchema = z.object({
+  name: templateName,
+});
+
+export type Scene = z.infer<typeof sceneSchema>;
+export type Theme = z.infer<typeof themeSchema>;
+export type AudioTrack = z.infer<typeof audioSchema>;
+export type Transition = z.infer<typeof transitionSchema>;
+export type RenderVideoParams = z.infer<typeof renderVideoParamsSchema>;
+export type RenderImageParams = z.infer<typeof renderImageParamsSchema>;
+export type StoryboardParams = z.infer<typeof storyboardParamsSchema>;
+export type TemplateCreateParams = z.infer<typeof templateCreateParamsSchema>;
+export type TemplateUpdateParams = z.infer<typeof templateUpdateParamsSchema>;
+export type TemplateNameParams = z.infer<typeof templateNameParamsSchema>;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function formatPath(path: Array<string | number>): string {
+  return path.reduce<string>((acc, key) => {
+    if (typeof key === 'number') return `${acc}[${key}]`;
+    return acc ? `${acc}.${key}` : key;
+  }, '');
+}
+
+function formatIssue(issue: z.ZodIssue): string {
+  const where = formatPath(issue.path) || '(root)';
+  if (issue.code === 'invalid_type') {
+    return `${where}: expected ${issue.expected}, received ${issue.received}`;
+  }
+  return `${where}: ${issue.message}`;
+}
+
+function parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, input: unknown): T {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new ValidationError(result.error.issues.map(formatIssue));
+  }
+  return result.data;
+}
+
+/**
+ * Validate remotion_render_video arguments.
+ * Scenes are only checked against the universal scene types when no custom template is used.
+ */
+export function parseRenderVideoParams(input: unknown): RenderVideoParams {
+  if (isCustomTemplate(input)) {
+    const schema = renderVideoParamsSchema.extend({ scenes: z.array(customSceneSchema).min(1) });
+    return parse(schema, input) as RenderVideoParams;
+  }
+  return parse(renderVideoParamsSchema, input);
+}
+
+/**
+ * Validate remotion_render_image arguments
+ */
+export function parseRenderImageParams(input: unknown): RenderImageParams {
+  if (isCustomTemplate(input)) {
+    const schema = renderImageParamsSchema.extend({ scene: customSceneSchema });
+    return parse(schema, input) as RenderImageParams;
+  }
+  return parse(renderImageParamsSchema, input);
+}
+
+/**
+ * Validate remotion_storyboard arguments
+ */
+export function parseStoryboardParams(input: unknown): StoryboardParams {
+  if (isCustomTemplate(input)) {
+    const schema = storyboardParamsSchema.extend({ scenes: z.array(customSceneSchema).min(1) });
+    return parse(schema, input) as StoryboardParams;
+  }
+  return parse(storyboardParamsSchema, input);
+}
+
+/**
+ * Validate remotion_template_create arguments
+ */
+export function parseTemplateCreateParams(input: unknown): TemplateCreateParams {
+  return parse(templateCreateParamsSchema, input);
+}
+
+/**
+ * Validate remotion_template_update arguments
+ */
+export function parseTemplateUpdateParams(input: unknown): TemplateUpdateParams {
+  return parse(templateUpdateParamsSchema, input);
+}
+
+/**
+ * Validate remotion_template_get / remotion_template_delete arguments
+ */
+export function parseTemplateNameParams(input: unknown): TemplateNameParams {
+  return parse(templateNameParamsSchema, input);
+}
+
+function isCustomTemplate(input: unknown): boolean {
+  if (typeof input !== 'object' || input === null) return false;
+  const { template } = input as { template?: unknown };
+  return typeof template === 'string' && normalizeTemplateName(template) !== BUILTIN_TEMPLATE;
+}
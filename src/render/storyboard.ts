@@ -0,0 +1,127 @@
+/**
+ * Storyboard
+ *
+ * Picks a few representative frames per scene and lays their stills out
+ * as a labelled contact sheet, one row per scene.
+ */
+
+import { SceneTiming } from './timeline.js';
+
+export const DEFAULT_STILLS_PER_SCENE = 3;
+export const DEFAULT_THUMBNAIL_WIDTH = 480;
+
+// Most entrance animations settle within the first second of a scene
+const INTRO_SECONDS = 1;
+
+const GAP = 16;
+const LABEL_HEIGHT = 40;
+const BACKGROUND = '#111111';
+
+export interface StoryboardFrame {
+  sceneIndex: number;
+  sceneType: string;
+  frame: number;
+  /** Scene range in seconds, as laid out by Main */
+  start: number;
+  end: number;
+}
+
+export interface StoryboardTile {
+  frame: StoryboardFrame;
+  image: Buffer;
+}
+
+/**
+ * Frames to capture for each scene: the end of the intro animation, evenly spaced
+ * frames in between, and the last frame before the next scene's transition starts.
+ * A single still per scene uses the middle frame.
+ */
+export function pickStoryboardFrames(
+  scenes: Array<{ type: string }>,
+  timings: SceneTiming[],
+  fps: number,
+  stillsPerScene: number
+): StoryboardFrame[] {
+  const frames: StoryboardFrame[] = [];
+
+  timings.forEach((timing, sceneIndex) => {
+    const next = timings[sceneIndex + 1];
+    const end = timing.from + timing.durationInFrames - 1;
+    // Skip the frames shared with the neighbouring scenes' transitions
+    const first = Math.min(timing.from + (timing.transitionIn?.durationInFrames ?? 0), end);
+    const last = Math.max(first, next ? next.from - 1 : end);
+
+    let picks: number[];
+    if (stillsPerScene === 1) {
+      picks = [Math.floor((first + last) / 2)];
+    } else {
+      const introEnd = Math.min(first + Math.round(INTRO_SECONDS * fps), last);
+      const step = (last - introEnd) / (stillsPerScene - 1);
+      picks = Array.from({ length: stillsPerScene }, (_, i) => Math.round(introEnd + step * i));
+    }
+
+    for (const frame of picks) {
+      frames.push({
+        sceneIndex,
+        sceneType: scenes[sceneIndex].type,
+        frame,
+        start: timing.from / fps,
+        end: (timing.from + timing.durationInFrames) / fps,
+      });
+    }
+  });
+
+  return frames;
+}
+
+/**
+ * Lay the stills out in a grid, one row per scene, with a label under each still
+ */
+export async function composeContactSheet(
+  tiles: StoryboardTile[],
+  columns: number,
+  tileWidth: number,
+  tileHeight: number,
+  fps: number
+): Promise<{ buffer: Buffer; width: number; height: number }> {
+  const rows = Math.ceil(tiles.length / columns);
+  const width = GAP + columns * (tileWidth + GAP);
+  const height = GAP + rows * (tileHeight + LABEL_HEIGHT + GAP);
+
+  const labels: string[] = [];
+  const images = tiles.map((tile, i) => {
+    const left = GAP + (i % columns) * (tileWidth + GAP);
+    const top = GAP + Math.floor(i / columns) * (tileHeight + LABEL_HEIGHT + GAP);
+    const { sceneIndex, sceneType, frame, start, end } = tile.frame;
+
+    labels.push(
+      `<text x="${left}" y="${top + tileHeight + 17}" class="scene">#${sceneIndex + 1} ${escapeXml(sceneType)} · ${start.toFixed(2)}s–${end.toFixed(2)}s</text>`,
+      `<text x="${left}" y="${top + tileHeight + 34}" class="frame">frame ${frame} (${(frame / fps).toFixed(2)}s)</text>`
+    );
+    return { input: tile.image, left, top };
+  });
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+<style>
+  text { font-family: sans-serif; font-size: 14px; }
+  .scene { fill: #ffffff; font-weight: bold; }
+  .frame { fill: #999999; }
+</style>
+${labels.join('\n')}
+</svg>`;
+
+  // Loaded on demand: a missing native binary only breaks storyboards, not the server
+  const { default: sharp } = await import('sharp').catch((err: Error) => {
+    throw new Error(`Storyboards need sharp, which failed to load: ${err.message}`);
+  });
+  const buffer = await sharp({ create: { width, height, channels: 3, background: BACKGROUND } })
+    .composite([...images, { input: Buffer.from(svg), left: 0, top: 0 }])
+    .png()
+    .toBuffer();
+
+  return { buffer, width, height };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
@@ -0,0 +1,71 @@
+/**
+ * Scene Timeline
+ *
+ * Frame layout of the universal template's TransitionSeries: each transition
+ * overlaps the end of one scene with the start of the next, so the video is
+ * shorter than the sum of the scene durations.
+ *
+ * Mirrors templates/universal/src/timeline.ts, which the template bundle
+ * imports: test/timeline.test.ts checks that both copies agree.
+ */
+
+import { Transition } from './schemas.js';
+
+export const DEFAULT_TRANSITION_DURATION = 0.5;
+
+export interface ResolvedTransition {
+  type: NonNullable<Transition['type']>;
+  direction: NonNullable<Transition['direction']>;
+  durationInFrames: number;
+}
+
+export interface SceneTiming {
+  /** First frame of the scene */
+  from: number;
+  durationInFrames: number;
+  /** Transition from the previous scene, overlapping the start of this one */
+  transitionIn: ResolvedTransition | null;
+}
+
+export interface Timeline {
+  scenes: SceneTiming[];
+  durationInFrames: number;
+}
+
+export function computeTimeline(
+  scenes: Array<{ duration: number; transitionIn?: Transition }>,
+  transition: Transition | undefined,
+  fps: number
+): Timeline {
+  const timings: SceneTiming[] = [];
+  let end = 0;
+
+  scenes.forEach((scene, index) => {
+    const durationInFrames = Math.max(1, Math.round(scene.duration * fps));
+    const previous = timings[index - 1];
+
+    let transitionIn: ResolvedTransition | null = null;
+    if (previous) {
+      const merged = { ...transition, ...scene.transitionIn };
+      const type = merged.type ?? (scene.transitionIn || transition ? 'fade' : 'none');
+      // A transition may not outlast either scene, nor eat into the previous scene's own transition
+      const available = Math.min(
+        durationInFrames,
+        previous.durationInFrames - (previous.transitionIn?.durationInFrames ?? 0)
+      );
+      const frames = Math.min(
+        Math.round((merged.duration ?? DEFAULT_TRANSITION_DURATION) * fps),
+        Math.max(0, available)
+      );
+      if (type !== 'none' && frames > 0) {
+        transitionIn = { type, direction: merged.direction ?? 'from-right', durationInFrames: frames };
+      }
+    }
+
+    const from = end - (transitionIn?.durationInFrames ?? 0);
+    timings.push({ from, durationInFrames, transitionIn });
+    end = from + durationInFrames;
+  });
+
+  return { scenes: timings, durationInFrames: end };
+}
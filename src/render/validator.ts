@@ -0,0 +1,413 @@
+/**
+ * Render Plan Validator
+ *
+ * Dry-run for remotion_render_video: validates the arguments and computes
+ * what the render would produce, without bundling or rendering anything.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { RenderConfig } from '../config/index.js';
+import { Encoding, resolveEncoding } from './encoding.js';
+import { DEFAULT_VIDEO_SETTINGS } from './engine.js';
+import { ValidationError } from './errors.js';
+import { parseRenderVideoParams, sceneContentSchemas, AudioTrack, Scene, SceneType } from './schemas.js';
+import { computeTimeline, DEFAULT_TRANSITION_DURATION, ResolvedTransition } from './timeline.js';
+
+export interface PlannedScene {
+  index: number;
+  type: string;
+  duration: number;
+  /** First frame of the scene, as laid out by Main */
+  from: number;
+  durationInFrames: number;
+  /** Transition from the previous scene, overlapping the start of this one */
+  transitionIn: ResolvedTransition | null;
+  content: Record<string, unknown>;
+}
+
+export type RenderPlan =
+  | {
+      valid: true;
+      width: number;
+      height: number;
+      /** Canvas sizes from settings.variants; width and height are the first one */
+      variants?: Array<{ name: string; width: number; height: number }>;
+      fps: number;
+      format: string;
+      encoding: Encoding;
+      duration: number;
+      durationInFrames: number;
+      scenes: PlannedScene[];
+      estimates: {
+        renderSeconds: number;
+        outputBytes: number;
+      };
+      warnings: string[];
+    }
+  | {
+      valid: false;
+      errors: string[];
+    };
+
+/**
+ * Defaults applied by the universal template when a content field is missing
+ */
+const CONTENT_DEFAULTS: Record<SceneType, Record<string, unknown>> = {
+  title: { variant: 'dark', animation: 'slide' },
+  text: { variant: 'dark', animation: 'slide' },
+  counter: { variant: 'dark', prefix: '', suffix: '' },
+  image: { animation: 'zoom-in' },
+  split: { variant: 'dark', imagePosition: 'right' },
+  list: { variant: 'dark', items: [] },
+  stats: { variant: 'dark', stats: [] },
+  intro: { variant: 'dark' },
+  outro: { variant: 'dark' },
+  cta: {
+    variant: 'dark',
+    qrSize: 180,
+    qrPosition: 'right',
+    qrQuietZone: 4,
+    qrFgColor: '#000000',
+    qrBgColor: '#ffffff',
+  },
+  video: {
+    trimStart: 0,
+    playbackRate: 1,
+    muted: false,
+    volume: 1,
+    fit: 'cover',
+    overlayPosition: 'bottom',
+    gradient: true,
+  },
+};
+
+/**
+ * Font sizes (px at 1080p, scaled to the canvas) used by the universal template for each text field
+ */
+const FONT_SIZES: Record<SceneType, Record<string, number>> = {
+  title: { title: 80, subtitle: 36 },
+  text: { title: 64, subtitle: 32, text: 24 },
+  counter: { label: 40 },
+  image: { title: 48, subtitle: 24 },
+  split: { title: 52, subtitle: 28, text: 22 },
+  list: { title: 52, items: 32 },
+  stats: { title: 48 },
+  intro: { title: 72, subtitle: 32 },
+  outro: { title: 64, subtitle: 32, text: 28, cta: 24 },
+  cta: { title: 56, subtitle: 28, url: 24, cta: 22 },
+  video: { title: 48, subtitle: 24 },
+};
+
+/**
+ * Content fields holding images or videos loaded by the renderer
+ */
+const MEDIA_FIELDS: Partial<Record<SceneType, string[]>> = {
+  image: ['url'],
+  split: ['imageUrl'],
+  intro: ['logoUrl'],
+  cta: ['qrLogoUrl'],
+  video: ['url'],
+};
+
+// Average glyph width relative to font size, and line height
+const CHAR_WIDTH_RATIO = 0.55;
+const LINE_HEIGHT_RATIO = 1.3;
+const SCENE_PADDING = 80;
+
+// The universal template scales its 1080p design sizes like this (components/layout.ts)
+const REFERENCE_HEIGHT = 1080;
+const REFERENCE_TEXT_WIDTH = 1280;
+
+// Rough throughput: frames rendered per second per thread at 1080p
+const FRAMES_PER_SECOND_PER_THREAD = 6;
+const BUNDLE_OVERHEAD_SECONDS = 5;
+
+// Bits per pixel per frame, per codec at its default quality
+const BITS_PER_PIXEL: Record<Encoding['codec'], number> = {
+  h264: 0.1,
+  h265: 0.06,
+  vp8: 0.08,
+  vp9: 0.06,
+  prores: 3.5,
+  gif: 1,
+};
+
+const URL_CHECK_TIMEOUT_MS = 5000;
+
+export async function validateRender(input: unknown, config: RenderConfig): Promise<RenderPlan> {
+  let params;
+  try {
+    params = parseRenderVideoParams(input);
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      return { valid: false, errors: err.issues };
+    }
+    throw err;
+  }
+
+  const targets = params.settings?.variants ?? [{
+    name: undefined,
+    width: params.settings?.width || DEFAULT_VIDEO_SETTINGS.width,
+    height: params.settings?.height || DEFAULT_VIDEO_SETTINGS.height,
+  }];
+  const { width, height } = targets[0];
+  const fps = params.settings?.fps || DEFAULT_VIDEO_SETTINGS.fps;
+  const encoding = resolveEncoding(params.settings ?? {});
+  const format = encoding.container;
+  const customTemplate = Boolean(params.template);
+
+  const warnings: string[] = [];
+  const rawScenes = (input as { scenes: Array<{ content?: Record<string, unknown> }> }).scenes;
+
+  // Same layout as Main: transitions overlap the end of a scene with the start of the next
+  const timeline = computeTimeline(params.scenes, params.settings?.transition, fps);
+  const scenes: PlannedScene[] = params.scenes.map((scene, index) => {
+    const planned: PlannedScene = {
+      index,
+      type: scene.type,
+      duration: scene.duration,
+      ...timeline.scenes[index],
+      content: customTemplate ? scene.content : applyDefaults(scene),
+    };
+
+    const requested = { ...params.settings?.transition, ...scene.transitionIn };
+    const requestedFrames = Math.round((requested.duration ?? DEFAULT_TRANSITION_DURATION) * fps);
+    const appliedFrames = planned.transitionIn?.durationInFrames ?? 0;
+    if (index > 0 && (params.settings?.transition || scene.transitionIn) && requested.type !== 'none'
+      && requestedFrames > appliedFrames) {
+      warnings.push(
+        `scenes[${index}]: transition shortened from ${requestedFrames} to ${appliedFrames} frames to fit the adjacent scenes`
+      );
+    }
+
+    if (!customTemplate) {
+      warnings.push(...findUnknownKeys(index, scene.type as SceneType, rawScenes[index]?.content));
+      // Variants of the same width report the same word overflow once
+      warnings.push(...new Set(targets.flatMap((target) => findTextOverflow(index, scene, target.width, target.height))));
+      warnings.push(...findInvalidTrim(index, scene));
+      warnings.push(...findWeakQrLevel(index, scene));
+    }
+
+    return planned;
+  });
+
+  if (!customTemplate) {
+    warnings.push(...await findUnreachableMedia(params.scenes));
+  }
+
+  if (params.settings?.audio) {
+    warnings.push(...await findAudioProblems(params.settings.audio, format, config, customTemplate));
+  }
+
+  const durationInFrames = timeline.durationInFrames;
+  const duration = Math.round(durationInFrames / fps * 100) / 100;
+
+  return {
+    valid: true,
+    width,
+    height,
+    ...(params.settings?.variants && { variants: params.settings.variants }),
+    fps,
+    format,
+    encoding,
+    duration,
+    durationInFrames,
+    scenes,
+    estimates: {
+      renderSeconds: estimateRenderSeconds(durationInFrames, targets, config.concurrency),
+      outputBytes: targets.reduce(
+        (sum, target) => sum + estimateOutputBytes(encoding, target.width, target.height, durationInFrames, duration),
+        0
+      ),
+    },
+    warnings,
+  };
+}
+
+function applyDefaults(scene: Scene): Record<string, unknown> {
+  const content = { ...CONTENT_DEFAULTS[scene.type], ...scene.content } as Record<string, unknown>;
+  if (scene.type === 'cta' && content.qrCode === undefined) {
+    content.qrCode = Boolean(content.url);
+  }
+  if (scene.type === 'cta' && content.qrLevel === undefined) {
+    content.qrLevel = content.qrLogoUrl ? 'H' : 'M';
+  }
+  return content;
+}
+
+function findUnknownKeys(index: number, type: SceneType, content?: Record<string, unknown>): string[] {
+  if (!content || typeof content !== 'object') return [];
+
+  const known = Object.keys(sceneContentSchemas[type].shape);
+  return Object.keys(content)
+    .filter((key) => !known.includes(key))
+    .map((key) => `scenes[${index}].content.${key}: unknown key for "${type}" scene, it will be ignored`);
+}
+
+function findTextOverflow(index: number, scene: Scene, width: number, height: number): string[] {
+  const warnings: string[] = [];
+  const fontSizes = FONT_SIZES[scene.type];
+  const content = scene.content as Record<string, unknown>;
+
+  const scale = Math.min(width / REFERENCE_TEXT_WIDTH, height / REFERENCE_HEIGHT);
+  const padding = Math.round(SCENE_PADDING * scale);
+
+  // Landscape split scenes give half the canvas to the text column, portrait ones stack
+  const availableWidth = (scene.type === 'split' && width >= height ? width / 2 : width) - padding * 2;
+  const availableHeight = height - padding * 2;
+  let totalHeight = 0;
+
+  for (const [field, designSize] of Object.entries(fontSizes)) {
+    const fontSize = Math.round(designSize * scale);
+    const value = content[field];
+    const texts = Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string')
+      : typeof value === 'string' ? [value] : [];
+
+    for (const text of texts) {
+      const charWidth = fontSize * CHAR_WIDTH_RATIO;
+      const longestWord = text.split(/\s+/).reduce((max, w) => Math.max(max, w.length), 0);
+
+      if (longestWord * charWidth > availableWidth) {
+        warnings.push(
+          `scenes[${index}].content.${field}: a word is too wide for ${width}px at ${fontSize}px and will overflow horizontally`
+        );
+      }
+
+      const lines = Math.max(1, Math.ceil(text.length * charWidth / availableWidth));
+      totalHeight += lines * fontSize * LINE_HEIGHT_RATIO;
+    }
+  }
+
+  if (totalHeight > availableHeight) {
+    warnings.push(
+      `scenes[${index}]: text needs about ${Math.round(totalHeight)}px of height but only ${availableHeight}px are available at ${width}×${height}, it will likely overflow`
+    );
+  }
+
+  return warnings;
+}
+
+function findInvalidTrim(index: number, scene: Scene): string[] {
+  if (scene.type !== 'video') return [];
+
+  const { trimStart = 0, trimEnd } = scene.content;
+  if (trimEnd !== undefined && trimEnd <= trimStart) {
+    return [`scenes[${index}].content.trimEnd: must be after trimStart (${trimStart}s), it will be ignored`];
+  }
+  return [];
+}
+
+// Largest logo per QR error-correction level, as capped by the template's QRCode
+const QR_MAX_LOGO_SIZE = { L: 0.15, M: 0.2, Q: 0.25, H: 0.3 } as const;
+const QR_DEFAULT_LOGO_SIZE = 0.2;
+
+function findWeakQrLevel(index: number, scene: Scene): string[] {
+  if (scene.type !== 'cta' || !scene.content.qrLogoUrl) return [];
+
+  const { qrLevel } = scene.content;
+  if (qrLevel !== 'L' && qrLevel !== 'M') return [];
+
+  const requested = scene.content.qrLogoSize ?? QR_DEFAULT_LOGO_SIZE;
+  const applied = Math.min(requested, QR_MAX_LOGO_SIZE[qrLevel]);
+  return [
+    `scenes[${index}].content.qrLevel: ${qrLevel} leaves little error correction for a logo` +
+    `${applied < requested ? `, it is reduced to ${applied}` : ''}. Use Q or H (the default with qrLogoUrl) to keep it scannable.`,
+  ];
+}
+
+async function findUnreachableMedia(scenes: Scene[]): Promise<string[]> {
+  const checks = scenes.flatMap((scene, index) =>
+    (MEDIA_FIELDS[scene.type] ?? [])
+      .map((field) => ({ field, url: (scene.content as Record<string, unknown>)[field] }))
+      .filter((c): c is { field: string; url: string } => typeof c.url === 'string' && c.url.length > 0)
+      .map(async ({ field, url }) => {
+        const problem = await checkUrl(url);
+        return problem ? `scenes[${index}].content.${field}: ${problem}` : null;
+      })
+  );
+
+  const results = await Promise.all(checks);
+  return results.filter((w): w is string => w !== null);
+}
+
+async function findAudioProblems(
+  audio: AudioTrack,
+  format: string,
+  config: RenderConfig,
+  customTemplate: boolean
+): Promise<string[]> {
+  if (format === 'gif') {
+    return ['settings.audio: gif output has no audio track, the audio will be ignored'];
+  }
+
+  // Anything that is not a URL is a file name in the universal template's public folder
+  if (!customTemplate && !/^(https?:|data:)/.test(audio.src)) {
+    const file = path.join(config.universalTemplateDir, 'public', audio.src.replace(/^\/+/, ''));
+    try {
+      await fs.access(file);
+      return [];
+    } catch {
+      return [`settings.audio.src: "${audio.src}" is not a URL and was not found in templates/universal/public`];
+    }
+  }
+
+  const problem = await checkUrl(audio.src);
+  return problem ? [`settings.audio.src: ${problem}`] : [];
+}
+
+async function checkUrl(url: string): Promise<string | null> {
+  if (url.startsWith('data:')) return null;
+  if (!/^https?:\/\//.test(url)) {
+    return `"${url}" is not an http(s) URL and cannot be loaded by the renderer`;
+  }
+
+  try {
+    let response = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(URL_CHECK_TIMEOUT_MS) });
+    // Some servers refuse HEAD
+    if (response.status === 405 || response.status === 501) {
+      response = await fetch(url, { method: 'GET', signal: AbortSignal.timeout(URL_CHECK_TIMEOUT_MS) });
+      await response.body?.cancel();
+    }
+    if (!response.ok) {
+      return `"${url}" returned HTTP ${response.status}`;
+    }
+    return null;
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : 'unknown error';
+    return `"${url}" is unreachable (${reason})`;
+  }
+}
+
+/**
+ * Variants share one bundle, so the overhead is counted once
+ */
+function estimateRenderSeconds(
+  frames: number,
+  targets: Array<{ width: number; height: number }>,
+  concurrency: number
+): number {
+  const seconds = targets.reduce((sum, { width, height }) => {
+    const pixelRatio = (width * height) / (1920 * 1080);
+    return sum + frames / (FRAMES_PER_SECOND_PER_THREAD * Math.max(1, concurrency) / pixelRatio);
+  }, 0);
+  return Math.round(BUNDLE_OVERHEAD_SECONDS + seconds);
+}
+
+/**
+ * From the target bitrate when one is set, otherwise from the codec's typical bits per pixel
+ */
+function estimateOutputBytes(
+  encoding: Encoding,
+  width: number,
+  height: number,
+  durationInFrames: number,
+  duration: number
+): number {
+  if (encoding.videoBitrate) {
+    const value = parseFloat(encoding.videoBitrate);
+    const bitsPerSecond = value * (/M$/.test(encoding.videoBitrate) ? 1_000_000 : 1000);
+    return Math.round(bitsPerSecond * duration / 8);
+  }
+  return Math.round(width * height * durationInFrames * BITS_PER_PIXEL[encoding.codec] / 8);
+}
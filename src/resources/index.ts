@@ -502,16 +502,24 @@ Affiche une image avec animation optionnelle.
 \`\`\`
 
 ### video
-Embed une vidéo.
+Embed une vidéo (B-roll) via OffthreadVideo.
 
 \`\`\`typescript
 {
   type: 'video',
-  duration: 10, // ou 'auto' pour durée de la vidéo
+  duration: 10,
   content: {
     url: 'https://...',
-    startFrom: 0, // secondes
-    volume: 1,
+    trimStart: 0,        // secondes ignorées au début du clip
+    trimEnd: 12,         // position de fin dans le clip (secondes)
+    playbackRate: 1,
+    muted: false,
+    volume: 1,           // 0-1
+    fit: 'cover' | 'contain' | 'fill',
+    title: 'Titre en surimpression',
+    subtitle: 'Sous-titre',
+    overlayPosition: 'top' | 'center' | 'bottom',
+    gradient: true,      // assombrit l'image derrière le texte
   }
 }
 \`\`\`
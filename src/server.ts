@@ -16,7 +16,31 @@ import {
 
 import { config } from './config/index.js';
 import { createOutputHandler, OutputHandler } from './output/index.js';
-import { RenderEngine, RenderVideoParams, RenderImageParams } from './render/index.js';
+import {
+  RenderEngine,
+  RenderVideoParams,
+  RenderImageParams,
+  StoryboardParams,
+  TemplateCreateParams,
+  TemplateUpdateParams,
+  TemplateNameParams,
+  RenderOptions,
+  RenderedImage,
+  CustomTemplate,
+  Encoding,
+  parseRenderVideoParams,
+  parseRenderImageParams,
+  parseStoryboardParams,
+  parseTemplateCreateParams,
+  parseTemplateUpdateParams,
+  parseTemplateNameParams,
+  RenderCancelledError,
+  SCENE_TYPES,
+  validateRender,
+} from './render/index.js';
+import { JobManager, JobResult, VariantResult } from './jobs/index.js';
+import { ProgressReporter } from './progress/index.js';
+import { BUILTIN_TEMPLATE, TemplateManager, normalizeTemplateName } from './templates/index.js';
 import { tools } from './tools/index.js';
 import { resources, getResourceContent } from './resources/index.js';
 
@@ -24,6 +48,8 @@ export class RemotionMcpServer {
   private server: Server;
   private renderEngine: RenderEngine;
   private outputHandler: OutputHandler;
+  private templateManager: TemplateManager;
+  private jobManager: JobManager;
 
   constructor() {
     this.server = new Server(
@@ -41,6 +67,8 @@ export class RemotionMcpServer {
 
     this.renderEngine = new RenderEngine(config.render);
     this.outputHandler = createOutputHandler();
+    this.templateManager = new TemplateManager(config.templates.dir);
+    this.jobManager = new JobManager(config.jobs);
   }
 
   async initialize(): Promise<void> {
@@ -49,10 +77,11 @@ export class RemotionMcpServer {
 
     await this.renderEngine.initialize();
     await this.outputHandler.initialize();
+    await this.templateManager.initialize();
 
     this.registerHandlers();
 
-    console.error('[RemotionMCP] Ready - 9 scene types available');
+    console.error(`[RemotionMCP] Ready - ${SCENE_TYPES.length} scene types available`);
   }
 
   private registerHandlers(): void {
@@ -86,20 +115,77 @@ export class RemotionMcpServer {
     });
 
     // Call tool
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      const progressToken = request.params._meta?.progressToken;
+      const progress = new ProgressReporter(
+        progressToken === undefined
+          ? null
+          : (update) => extra.sendNotification({
+              method: 'notifications/progress',
+              params: { progressToken, ...update },
+            })
+      );
 
       try {
         switch (name) {
           case 'remotion_render_video':
-            return await this.handleRenderVideo(args as unknown as RenderVideoParams);
+            return await this.handleRenderVideo(parseRenderVideoParams(args), progress);
 
           case 'remotion_render_image':
-            return await this.handleRenderImage(args as unknown as RenderImageParams);
+            return await this.handleRenderImage(parseRenderImageParams(args), progress);
+
+          case 'remotion_storyboard':
+            return await this.handleStoryboard(parseStoryboardParams(args), progress);
+
+          case 'remotion_validate':
+            return await this.handleValidate(args);
+
+          case 'remotion_job_status':
+            return this.handleJobStatus(args as unknown as { jobId: string });
+
+          case 'remotion_job_result':
+            return this.handleJobResult(args as unknown as { jobId: string });
+
+          case 'remotion_job_cancel':
+            return this.handleJobCancel(args as unknown as { jobId: string });
+
+          case 'remotion_job_list':
+            return this.handleJobList();
+
+          case 'remotion_output_list':
+            return await this.handleOutputList();
+
+          case 'remotion_output_delete':
+            return await this.handleOutputDelete(args as unknown as { fileId: string });
+
+          case 'remotion_output_extend_ttl':
+            return await this.handleOutputExtendTtl(args as unknown as { fileId: string; seconds: number });
+
+          case 'remotion_output_regenerate_token':
+            return await this.handleOutputRegenerateToken(args as unknown as { fileId: string });
+
+          case 'remotion_template_create':
+            return await this.handleTemplateCreate(parseTemplateCreateParams(args));
+
+          case 'remotion_template_list':
+            return this.handleTemplateList();
+
+          case 'remotion_template_get':
+            return this.handleTemplateGet(parseTemplateNameParams(args));
+
+          case 'remotion_template_update':
+            return await this.handleTemplateUpdate(parseTemplateUpdateParams(args));
+
+          case 'remotion_template_delete':
+            return await this.handleTemplateDelete(parseTemplateNameParams(args));
 
           case 'remotion_status':
             return this.handleStatus();
 
+          case 'remotion_cache_clear':
+            return await this.handleCacheClear();
+
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
@@ -118,7 +204,7 @@ export class RemotionMcpServer {
   // RENDER HANDLERS
   // ==========================================================================
 
-  private async handleRenderVideo(params: RenderVideoParams) {
+  private async handleRenderVideo(params: RenderVideoParams, progress: ProgressReporter) {
     console.error('[RemotionMCP] Rendering video...');
     console.error(`[RemotionMCP] Scenes: ${params.scenes?.length || 0}`);
     
@@ -127,51 +213,377 @@ export class RemotionMcpServer {
       console.error(`[RemotionMCP] Scene types: ${sceneTypes}`);
     }
 
-    const result = await this.renderEngine.renderVideo(params);
+    const template = this.resolveTemplate(params.template);
+
+    if (params.async) {
+      this.renderEngine.assertCanQueue();
+      const job = this.jobManager.submit('video', (options) =>
+        this.renderAndStoreVideo(params, template, options)
+      );
+
+      return {
+        content: [{
+          type: 'text',
+          text: `Job ${job.id} started\nPoll with remotion_job_status, fetch the URL with remotion_job_result`,
+        }],
+      };
+    }
+
+    const output = await this.renderAndStoreVideo(params, template, { onProgress: progress.onRender }, progress);
+
+    return {
+      content: [
+        { type: 'text', text: this.formatOutput(output) },
+        ...this.toPosterContent(output, params.inline),
+      ],
+    };
+  }
+
+  private async renderAndStoreVideo(
+    params: RenderVideoParams,
+    template?: CustomTemplate,
+    options?: RenderOptions,
+    progress = new ProgressReporter(null)
+  ): Promise<JobResult> {
+    const result = await this.renderEngine.renderVideo(params, template, options);
+    const title = this.getTitle(params.scenes);
+    const extension = params.settings?.format || 'mp4';
+
+    progress.uploading();
+    const outputs: VariantResult[] = [];
+    const storedIds: string[] = [];
+    const videos = result.variants ?? [{ ...result, name: '' }];
+    for (const [index, video] of videos.entries()) {
+      await this.discardIfCancelled(options?.signal, storedIds);
+      const output = await this.outputHandler.store({
+        buffer: video.buffer,
+        mimeType: video.mimeType,
+        filename: `video-${Date.now()}${video.name ? `-${video.name}` : ''}.${extension}`,
+        title: title && video.name ? `${title} ${video.name}` : title,
+        metadata: { ...video.metadata, ...(result.variants && { variant: video.name }) },
+      }, (fraction) => progress.onUpload((index + fraction) / videos.length));
+      if (output.id) storedIds.push(output.id);
+      await this.discardIfCancelled(options?.signal, storedIds);
+      outputs.push({
+        name: video.name,
+        url: output.url,
+        path: output.path,
+        expiresAt: output.expiresAt,
+        metadata: video.metadata,
+        poster: video.poster,
+      });
+    }
+    progress.done();
+
+    const { name: _name, ...first } = outputs[0];
+    return {
+      ...first,
+      warnings: result.warnings,
+      ...(result.variants && { variants: outputs }),
+    };
+  }
+
+  /**
+   * A job cancelled while its files were uploading must not leave them behind
+   */
+  private async discardIfCancelled(signal: AbortSignal | undefined, storedIds: string[]): Promise<void> {
+    if (!signal?.aborted) return;
+
+    for (const id of storedIds) {
+      await this.outputHandler.delete?.(id).catch((err) => {
+        console.error(`[RemotionMCP] Could not delete ${id} of a cancelled job:`, err);
+      });
+    }
+    throw new RenderCancelledError();
+  }
+
+  private async handleRenderImage(params: RenderImageParams, progress: ProgressReporter) {
+    console.error('[RemotionMCP] Rendering image...');
+    console.error(`[RemotionMCP] Scene type: ${params.scene?.type}`);
 
+    const result = await this.renderEngine.renderImage(
+      params,
+      this.resolveTemplate(params.template),
+      { onProgress: progress.onRender }
+    );
+
+    progress.uploading();
     const output = await this.outputHandler.store({
       buffer: result.buffer,
       mimeType: result.mimeType,
-      filename: `video-${Date.now()}.${params.settings?.format || 'mp4'}`,
+      filename: `image-${Date.now()}.${params.settings?.format || 'png'}`,
+      title: this.getTitle([params.scene]),
       metadata: result.metadata,
-    });
+    }, progress.onUpload);
+    progress.done();
 
     return {
-      content: [{ type: 'text', text: this.formatOutput(output.url, result.metadata) }],
+      content: [
+        { type: 'text', text: this.formatOutput({ ...output, metadata: result.metadata }) },
+        ...this.toImageContent(result, params.inline),
+      ],
     };
   }
 
-  private async handleRenderImage(params: RenderImageParams) {
-    console.error('[RemotionMCP] Rendering image...');
-    console.error(`[RemotionMCP] Scene type: ${params.scene?.type}`);
+  private async handleStoryboard(params: StoryboardParams, progress: ProgressReporter) {
+    console.error(`[RemotionMCP] Rendering storyboard: ${params.scenes.length} scenes`);
 
-    const result = await this.renderEngine.renderImage(params);
+    const result = await this.renderEngine.renderStoryboard(
+      params,
+      this.resolveTemplate(params.template),
+      { onProgress: progress.onRender }
+    );
 
+    progress.uploading();
     const output = await this.outputHandler.store({
       buffer: result.buffer,
       mimeType: result.mimeType,
-      filename: `image-${Date.now()}.${params.settings?.format || 'png'}`,
+      filename: `storyboard-${Date.now()}.png`,
+      title: this.getTitle(params.scenes),
       metadata: result.metadata,
+    }, progress.onUpload);
+    progress.done();
+
+    return {
+      content: [
+        { type: 'text', text: this.formatOutput({ ...output, metadata: result.metadata }) },
+        ...this.toImageContent(result),
+      ],
+    };
+  }
+
+  /**
+   * MCP image content for a still, so multimodal clients can see it without fetching the URL.
+   * Sent when requested, or by default when under INLINE_IMAGE_MAX_BYTES.
+   */
+  private toImageContent(image: RenderedImage | undefined, inline?: boolean) {
+    if (!image || inline === false) return [];
+    if (inline === undefined && image.buffer.length > config.render.inlineImageMaxBytes) return [];
+
+    return [{ type: 'image', data: image.buffer.toString('base64'), mimeType: image.mimeType }];
+  }
+
+  /**
+   * Poster frames of a video result, one per variant
+   */
+  private toPosterContent(result: JobResult, inline?: boolean) {
+    return (result.variants ?? [result]).flatMap((video) => this.toImageContent(video.poster, inline));
+  }
+
+  /**
+   * First scene title, used by output handlers to name files
+   */
+  private getTitle(scenes: Array<{ content?: Record<string, unknown> }>): string | undefined {
+    const title = scenes.map((s) => s.content?.title).find((t) => typeof t === 'string' && t.trim());
+    return title as string | undefined;
+  }
+
+  private async handleValidate(args: unknown) {
+    const plan = await validateRender(args, config.render);
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(plan, null, 2) }],
+    };
+  }
+
+  /**
+   * Resolve a custom template name to its name and code.
+   * Returns undefined for the built-in universal template, requested or by default.
+   */
+  private resolveTemplate(name?: string): CustomTemplate | undefined {
+    if (!name || normalizeTemplateName(name) === BUILTIN_TEMPLATE) return undefined;
+
+    const template = this.templateManager.get(name);
+    if (!template) {
+      throw new Error(`Template '${name}' not found`);
+    }
+
+    console.error(`[RemotionMCP] Using template: ${template.name}`);
+    return { name: template.name, code: template.code };
+  }
+
+  // ==========================================================================
+  // JOB HANDLERS
+  // ==========================================================================
+
+  private handleJobStatus(params: { jobId: string }) {
+    const job = this.jobManager.get(params.jobId);
+    if (!job) {
+      throw new Error(`Job '${params.jobId}' not found`);
+    }
+
+    const { result, ...status } = job;
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ ...status, url: result?.url }, null, 2) }],
+    };
+  }
+
+  private handleJobResult(params: { jobId: string }) {
+    const job = this.jobManager.get(params.jobId);
+    if (!job) {
+      throw new Error(`Job '${params.jobId}' not found`);
+    }
+
+    if (job.state === 'failed') {
+      throw new Error(`Job '${job.id}' failed: ${job.error}`);
+    }
+
+    if (job.state !== 'completed' || !job.result) {
+      throw new Error(`Job '${job.id}' is ${job.state} (${job.progress}%), no result yet`);
+    }
+
+    return {
+      content: [
+        { type: 'text', text: this.formatOutput(job.result) },
+      ],
+    };
+  }
+
+  private handleJobCancel(params: { jobId: string }) {
+    const job = this.jobManager.cancel(params.jobId);
+
+    return {
+      content: [{ type: 'text', text: `Job ${job.id} cancelled` }],
+    };
+  }
+
+  private handleJobList() {
+    const jobs = this.jobManager.list().map(({ result, ...job }) => ({ ...job, url: result?.url }));
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(jobs, null, 2) }],
+    };
+  }
+
+  // ==========================================================================
+  // OUTPUT HANDLERS
+  // ==========================================================================
+
+  private async handleOutputList() {
+    if (!this.outputHandler.list) {
+      throw new Error(`Listing files is not supported in ${config.outputMode} output mode`);
+    }
+
+    const files = await this.outputHandler.list();
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(files, null, 2) }],
+    };
+  }
+
+  private async handleOutputDelete(params: { fileId: string }) {
+    if (!this.outputHandler.delete) {
+      throw new Error(`Deleting files is not supported in ${config.outputMode} output mode`);
+    }
+
+    await this.outputHandler.delete(params.fileId);
+
+    return {
+      content: [{ type: 'text', text: `File '${params.fileId}' deleted` }],
+    };
+  }
+
+  private async handleOutputExtendTtl(params: { fileId: string; seconds: number }) {
+    if (!this.outputHandler.extendTtl) {
+      throw new Error(`Extending file expiry is not supported in ${config.outputMode} output mode`);
+    }
+
+    if (typeof params.seconds !== 'number' || !(params.seconds > 0)) {
+      throw new Error('seconds must be a positive number');
+    }
+
+    const file = await this.outputHandler.extendTtl(params.fileId, params.seconds);
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(file, null, 2) }],
+    };
+  }
+
+  private async handleOutputRegenerateToken(params: { fileId: string }) {
+    if (!this.outputHandler.regenerateToken) {
+      throw new Error(`Regenerating URLs is not supported in ${config.outputMode} output mode`);
+    }
+
+    const file = await this.outputHandler.regenerateToken(params.fileId);
+
+    return {
+      content: [{ type: 'text', text: `${file.url}\nThe previous URL no longer works` }],
+    };
+  }
+
+  // ==========================================================================
+  // TEMPLATE HANDLERS
+  // ==========================================================================
+
+  private async handleTemplateCreate(params: TemplateCreateParams) {
+    const template = await this.templateManager.create({
+      name: params.name,
+      description: params.description,
+      code: params.code,
+      inputSchema: params.inputSchema,
+    });
+
+    return {
+      content: [{ type: 'text', text: `Template '${template.name}' created` }],
+    };
+  }
+
+  private handleTemplateList() {
+    const templates = this.templateManager.list();
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(templates, null, 2) }],
+    };
+  }
+
+  private handleTemplateGet(params: TemplateNameParams) {
+    const template = this.templateManager.get(params.name);
+    if (!template) {
+      throw new Error(`Template '${params.name}' not found`);
+    }
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(template, null, 2) }],
+    };
+  }
+
+  private async handleTemplateUpdate(params: TemplateUpdateParams) {
+    const template = await this.templateManager.update(params.name, {
+      description: params.description,
+      code: params.code,
+      inputSchema: params.inputSchema,
     });
 
     return {
-      content: [{ type: 'text', text: this.formatOutput(output.url, result.metadata) }],
+      content: [{ type: 'text', text: `Template '${template.name}' updated` }],
     };
   }
 
+  private async handleTemplateDelete(params: TemplateNameParams) {
+    await this.templateManager.delete(params.name);
+
+    return {
+      content: [{ type: 'text', text: `Template '${params.name}' deleted` }],
+    };
+  }
+
+  // ==========================================================================
+  // STATUS
+  // ==========================================================================
+
   private handleStatus() {
-    const supportedScenes = [
-      'title', 'text', 'counter', 'image', 'split', 
-      'list', 'stats', 'intro', 'outro'
-    ];
-    
     const status = {
       server: 'remotion-mcp',
       version: '2.0.0',
       output: this.outputHandler.getStatus(),
-      supportedScenes,
+      supportedScenes: SCENE_TYPES,
+      templates: this.templateManager.list().map(t => t.name),
       render: {
         concurrency: config.render.concurrency,
+        queue: this.renderEngine.getQueueStatus(),
+        bundleCache: this.renderEngine.getBundleCacheStatus(),
+        browser: this.renderEngine.getBrowserStatus(),
         defaultFps: 30,
         defaultWidth: 1920,
         defaultHeight: 1080,
@@ -183,21 +595,57 @@ export class RemotionMcpServer {
     };
   }
 
-  private formatOutput(
-    url: string,
-    metadata: { duration?: number; width?: number; height?: number; fps?: number }
-  ): string {
+  private async handleCacheClear() {
+    const { removed, freedBytes, inUse } = await this.renderEngine.clearBundleCache();
+    const freed = (freedBytes / (1024 * 1024)).toFixed(1);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `${removed} bundles removed, ${freed} MB freed${inUse > 0 ? `, ${inUse} in use kept` : ''}`,
+      }],
+    };
+  }
+
+  private formatOutput({ url, path, metadata = {}, warnings = [], variants }: {
+    url: string;
+    path?: string;
+    metadata?: { duration?: number; width?: number; height?: number; fps?: number; encoding?: Encoding };
+    warnings?: string[];
+    variants?: VariantResult[];
+  }): string {
+    if (variants) {
+      let output = variants.map((variant) => `${variant.name}: ${this.formatOutput(variant)}`).join('\n\n');
+      for (const warning of warnings) {
+        output += `\n⚠️ ${warning}`;
+      }
+      return output;
+    }
+
     let output = url;
     const parts: string[] = [];
 
+    if (path) {
+      output += `\n📁 ${path}`;
+    }
+
     if (metadata.duration) parts.push(`${metadata.duration}s`);
     if (metadata.width && metadata.height) parts.push(`${metadata.width}×${metadata.height}`);
     if (metadata.fps) parts.push(`${metadata.fps}fps`);
+    if (metadata.encoding) {
+      const { codec, crf, videoBitrate, pixelFormat } = metadata.encoding;
+      const quality = videoBitrate ?? (crf !== undefined ? `crf ${crf}` : null);
+      parts.push([codec, quality, pixelFormat].filter(Boolean).join(' '));
+    }
 
     if (parts.length > 0) {
       output += `\n📹 ${parts.join(' • ')}`;
     }
 
+    for (const warning of warnings) {
+      output += `\n⚠️ ${warning}`;
+    }
+
     return output;
   }
 
@@ -211,6 +659,8 @@ export class RemotionMcpServer {
 
     const shutdown = async () => {
       console.error('[RemotionMCP] Shutting down...');
+      this.jobManager.cancelAll();
+      await this.renderEngine.shutdown();
       await this.outputHandler.shutdown();
       process.exit(0);
     };
@@ -0,0 +1,5 @@
+/**
+ * Templates Module
+ */
+
+export * from './manager.js';
@@ -7,6 +7,16 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
+/** Name of the bundled template used when no custom template is requested */
+export const BUILTIN_TEMPLATE = 'universal';
+
+/**
+ * Template names are stored lowercase with anything but letters, digits and dashes replaced
+ */
+export function normalizeTemplateName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9-]/g, '-');
+}
+
 export interface TemplateMetadata {
   name: string;
   description?: string;
@@ -31,10 +41,6 @@ export class TemplateManager {
     await fs.mkdir(this.templatesDir, { recursive: true });
     await this.loadTemplates();
 
-    if (!this.templates.has('universal')) {
-      await this.createDefaultTemplate();
-    }
-
     console.error(`[TemplateManager] ${this.templates.size} templates loaded`);
   }
 
@@ -48,6 +54,10 @@ export class TemplateManager {
             'utf-8'
           );
           const template = JSON.parse(content) as Template;
+          if (template.name === BUILTIN_TEMPLATE) {
+            console.error(`[TemplateManager] Ignoring ${file}: '${BUILTIN_TEMPLATE}' is the built-in template`);
+            continue;
+          }
           this.templates.set(template.name, template);
         }
       }
@@ -67,8 +77,11 @@ export class TemplateManager {
     code: string;
     inputSchema?: Record<string, unknown>;
   }): Promise<Template> {
-    const name = params.name.toLowerCase().replace(/[^a-z0-9-]/g, '-');
+    const name = normalizeTemplateName(params.name);
 
+    if (name === BUILTIN_TEMPLATE) {
+      throw new Error(`Template name '${BUILTIN_TEMPLATE}' is reserved for the built-in template`);
+    }
     if (this.templates.has(name)) {
       throw new Error(`Template '${name}' already exists`);
     }
@@ -94,9 +107,42 @@ export class TemplateManager {
     return template;
   }
 
-  async delete(name: string): Promise<void> {
-    if (name === 'universal') {
-      throw new Error("Cannot delete 'universal' template");
+  async update(rawName: string, params: {
+    description?: string;
+    code?: string;
+    inputSchema?: Record<string, unknown>;
+  }): Promise<Template> {
+    const name = normalizeTemplateName(rawName);
+    const existing = this.templates.get(name);
+    if (!existing) {
+      throw new Error(`Template '${name}' not found`);
+    }
+
+    if (params.code !== undefined && !params.code.includes('export')) {
+      throw new Error('Template must export a Main component');
+    }
+
+    const template: Template = {
+      ...existing,
+      description: params.description ?? existing.description,
+      code: params.code ?? existing.code,
+      inputSchema: params.inputSchema ?? existing.inputSchema,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.saveTemplate(template);
+    this.templates.set(name, template);
+    if (params.code !== undefined) {
+      await this.prepareBundle(template);
+    }
+
+    return template;
+  }
+
+  async delete(rawName: string): Promise<void> {
+    const name = normalizeTemplateName(rawName);
+    if (name === BUILTIN_TEMPLATE) {
+      throw new Error(`Cannot delete the built-in '${BUILTIN_TEMPLATE}' template`);
     }
     if (!this.templates.has(name)) {
       throw new Error(`Template '${name}' not found`);
@@ -108,7 +154,7 @@ export class TemplateManager {
   }
 
   get(name: string): Template | undefined {
-    return this.templates.get(name);
+    return this.templates.get(normalizeTemplateName(name));
   }
 
   list(): TemplateMetadata[] {
@@ -153,120 +199,4 @@ registerRoot(RemotionRoot);
 `
     );
   }
-
-  private async createDefaultTemplate(): Promise<void> {
-    const code = `import React from 'react';
-import {
-  useCurrentFrame,
-  useVideoConfig,
-  interpolate,
-  spring,
-  Sequence,
-  Img,
-  AbsoluteFill,
-} from 'remotion';
-
-interface Scene {
-  type: 'text' | 'image' | 'outro';
-  duration: number;
-  content: Record<string, any>;
-}
-
-interface Theme {
-  primaryColor?: string;
-  secondaryColor?: string;
-  backgroundColor?: string;
-  fontFamily?: string;
-}
-
-const TextScene: React.FC<{ content: any; theme: Theme }> = ({ content, theme }) => {
-  const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
-  const opacity = interpolate(frame, [0, fps * 0.5], [0, 1], { extrapolateRight: 'clamp' });
-  const scale = spring({ frame, fps, config: { damping: 100, stiffness: 200 } });
-
-  return (
-    <AbsoluteFill style={{
-      backgroundColor: theme.backgroundColor || '#000',
-      justifyContent: 'center',
-      alignItems: 'center',
-      fontFamily: theme.fontFamily || 'Arial',
-    }}>
-      <div style={{ opacity, transform: \`scale(\${scale})\`, textAlign: 'center' }}>
-        <h1 style={{ color: theme.primaryColor || '#fff', fontSize: 72, margin: 0 }}>
-          {content.title}
-        </h1>
-        {content.subtitle && (
-          <p style={{ color: theme.secondaryColor || '#aaa', fontSize: 36, marginTop: 20 }}>
-            {content.subtitle}
-          </p>
-        )}
-      </div>
-    </AbsoluteFill>
-  );
-};
-
-const ImageScene: React.FC<{ content: any; theme: Theme }> = ({ content, theme }) => {
-  const frame = useCurrentFrame();
-  const { durationInFrames } = useVideoConfig();
-  const scale = interpolate(frame, [0, durationInFrames], 
-    content.animation === 'zoom-out' ? [1.2, 1] : [1, 1.2]);
-
-  return (
-    <AbsoluteFill style={{ backgroundColor: theme.backgroundColor || '#000' }}>
-      <Img src={content.url} style={{
-        width: '100%', height: '100%', objectFit: 'cover',
-        transform: \`scale(\${scale})\`,
-      }} />
-    </AbsoluteFill>
-  );
-};
-
-const OutroScene: React.FC<{ content: any; theme: Theme }> = ({ content, theme }) => {
-  const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
-  const opacity = interpolate(frame, [0, fps * 0.3], [0, 1]);
-
-  return (
-    <AbsoluteFill style={{
-      backgroundColor: theme.backgroundColor || '#000',
-      justifyContent: 'center', alignItems: 'center',
-      fontFamily: theme.fontFamily || 'Arial',
-    }}>
-      <p style={{ color: theme.primaryColor || '#fff', fontSize: 60, opacity }}>
-        {content.text || 'Thank you'}
-      </p>
-    </AbsoluteFill>
-  );
-};
-
-export const Main: React.FC<{ scenes: Scene[]; theme: Theme }> = ({ scenes, theme }) => {
-  const { fps } = useVideoConfig();
-  let currentFrame = 0;
-
-  return (
-    <AbsoluteFill>
-      {scenes.map((scene, i) => {
-        const duration = Math.ceil(scene.duration * fps);
-        const from = currentFrame;
-        currentFrame += duration;
-        return (
-          <Sequence key={i} from={from} durationInFrames={duration}>
-            {scene.type === 'text' && <TextScene content={scene.content} theme={theme} />}
-            {scene.type === 'image' && <ImageScene content={scene.content} theme={theme} />}
-            {scene.type === 'outro' && <OutroScene content={scene.content} theme={theme} />}
-          </Sequence>
-        );
-      })}
-    </AbsoluteFill>
-  );
-};
-`;
-
-    await this.create({
-      name: 'universal',
-      description: 'Default template with text, image, and outro scenes',
-      code,
-    });
-  }
 }
@@ -4,13 +4,36 @@
  * Outils simplifiés pour le rendu vidéo Remotion.
  */
 
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ZodTypeAny } from 'zod';
+import {
+  renderVideoParamsSchema,
+  renderImageParamsSchema,
+  storyboardParamsSchema,
+  templateCreateParamsSchema,
+  templateUpdateParamsSchema,
+  templateNameParamsSchema,
+} from '../render/index.js';
+
+/**
+ * Convert a zod schema into a tool inputSchema (JSON Schema object)
+ */
+function toInputSchema(schema: ZodTypeAny): { type: 'object'; [key: string]: unknown } {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+    // Unknown keys are stripped, not rejected
+    removeAdditionalStrategy: 'strict',
+  }) as Record<string, unknown>;
+  return { ...jsonSchema, type: 'object' };
+}
+
 export const tools = [
   // ============================================================================
   // RENDER TOOLS
   // ============================================================================
   {
     name: 'remotion_render_video',
-    description: `Generate a professional video from scenes. Returns a URL to the rendered video.
+    description: `Generate a professional video from scenes. Returns a URL to the rendered video and a poster frame as image content (inline: false to skip).
 
 Available scene types:
 - "title": Big title with optional subtitle (content: title, subtitle, animation)
@@ -22,167 +45,173 @@ Available scene types:
 - "stats": Multiple statistics (content: stats: [{value, label}])
 - "intro": Logo/brand intro (content: title, subtitle, logoUrl)
 - "outro": Closing with CTA (content: title, subtitle, text, cta)
-- "cta": Call-to-action with QR code (content: title, subtitle, url, qrCode: boolean, qrSize, qrPosition)
+- "cta": Call-to-action with scannable QR code (content: title, subtitle, url, cta, qrCode: boolean, qrSize, qrPosition, qrLevel: L|M|Q|H, qrQuietZone, qrFgColor, qrBgColor, qrLogoUrl, qrLogoSize)
+- "video": Video clip / B-roll (content: url, trimStart, trimEnd, playbackRate, muted, volume, fit: cover|contain|fill, title, subtitle, overlayPosition: top|center|bottom, gradient)
+
+Animation options for text: "fade", "slide", "scale", "typewriter"
+
+Background music: settings.audio { src, volume, startFrom, fadeIn, fadeOut, loop } (not available for gif)
 
-Animation options for text: "fade", "slide", "scale", "typewriter"`,
+Encoding: settings.format mp4|webm|mov|gif with settings.codec (mp4: h264|h265, webm: vp8|vp9, mov: prores|h264), quality via crf or videoBitrate, plus audioBitrate, pixelFormat and x264Preset (h264 only). The chosen encoding is returned in the metadata.
+
+Overlays: settings.transparent renders without backgrounds, keeping the alpha channel (format mov for ProRes 4444 or webm for VP9).
+
+Multiple aspect ratios: settings.variants [{ name, width, height }] renders every size in one call and returns a URL per variant. Scene layouts scale with the canvas.
+
+Transitions: settings.transition { type: fade|slide|wipe|flip|clockWipe|none, duration, direction }, overridable per scene with transitionIn.
+Transitions overlap consecutive scenes, shortening the total duration.`,
+    inputSchema: toInputSchema(renderVideoParamsSchema),
+  },
+  {
+    name: 'remotion_render_image',
+    description: 'Generate a static image (thumbnail, preview) from a scene. Returns a URL to the image and, unless inline is false, the image itself as image content. settings.transparent renders a PNG with alpha channel, without the background.',
+    inputSchema: toInputSchema(renderImageParamsSchema),
+  },
+  {
+    name: 'remotion_validate',
+    description: `Dry-run for remotion_render_video: takes the same arguments and returns the render plan without rendering.
+
+Returns the normalized scenes (with template defaults), each scene's frame range, total durationInFrames,
+estimated render time and output size, and warnings (unreachable image or video URLs, text likely to overflow, ignored content keys).
+Errors are reported with their exact path, e.g. "scenes[3].content.stats[1].value".`,
+    inputSchema: toInputSchema(renderVideoParamsSchema),
+  },
+  {
+    name: 'remotion_storyboard',
+    description: `Preview a whole video as one image before rendering it: takes the same scenes as remotion_render_video
+and returns a contact sheet PNG with one row per scene. By default each row shows the end of the intro animation,
+mid-scene and the last frame, labelled with scene index, type, time range and frame number.
+Much faster than rendering the video.`,
+    inputSchema: toInputSchema(storyboardParamsSchema),
+  },
+
+  // ============================================================================
+  // JOB TOOLS
+  // ============================================================================
+  {
+    name: 'remotion_job_status',
+    description: 'Get the state of an asynchronous render job: queued, running, completed, failed or cancelled, with progress percentage and ETA',
     inputSchema: {
       type: 'object',
       properties: {
-        scenes: {
-          type: 'array',
-          description: 'List of scenes to compose into a video',
-          items: {
-            type: 'object',
-            properties: {
-              type: {
-                type: 'string',
-                enum: ['title', 'text', 'counter', 'image', 'split', 'list', 'stats', 'intro', 'outro', 'cta'],
-                description: 'Type of scene',
-              },
-              duration: {
-                type: 'number',
-                description: 'Duration in seconds',
-              },
-              content: {
-                type: 'object',
-                description: 'Scene-specific content',
-                properties: {
-                  // Text content
-                  title: { type: 'string', description: 'Main title text' },
-                  subtitle: { type: 'string', description: 'Subtitle text' },
-                  text: { type: 'string', description: 'Body text' },
-                  
-                  // Media
-                  url: { type: 'string', description: 'Image or video URL' },
-                  imageUrl: { type: 'string', description: 'Image URL for split scenes' },
-                  logoUrl: { type: 'string', description: 'Logo URL for intro' },
-                  
-                  // Counter
-                  value: { type: 'string', description: 'Number value for counter' },
-                  suffix: { type: 'string', description: 'Suffix after number (e.g., "+", "%")' },
-                  prefix: { type: 'string', description: 'Prefix before number' },
-                  label: { type: 'string', description: 'Label below counter' },
-                  
-                  // List
-                  items: { 
-                    type: 'array', 
-                    items: { type: 'string' },
-                    description: 'List items for list scene' 
-                  },
-                  
-                  // Stats
-                  stats: {
-                    type: 'array',
-                    items: {
-                      type: 'object',
-                      properties: {
-                        value: { type: 'string' },
-                        label: { type: 'string' },
-                        suffix: { type: 'string' },
-                      },
-                    },
-                    description: 'Statistics for stats scene',
-                  },
-                  
-                  // CTA
-                  cta: { type: 'string', description: 'Call-to-action button text' },
-                  
-                  // QR Code
-                  qrCode: { type: 'boolean', description: 'Show QR code (for cta scene)' },
-                  qrSize: { type: 'number', description: 'QR code size in pixels (default: 180)' },
-                  qrPosition: { type: 'string', enum: ['left', 'right', 'center'], description: 'QR code position' },
-                  
-                  // Styling
-                  variant: { 
-                    type: 'string', 
-                    enum: ['dark', 'light'],
-                    description: 'Color variant (dark or light background)',
-                  },
-                  titleColor: { type: 'string', description: 'Title color override (hex)' },
-                  
-                  // Animation
-                  animation: { 
-                    type: 'string',
-                    enum: ['fade', 'slide', 'scale', 'typewriter', 'zoom-in', 'zoom-out', 'pan'],
-                    description: 'Animation type',
-                  },
-                  
-                  // Position
-                  imagePosition: {
-                    type: 'string',
-                    enum: ['left', 'right'],
-                    description: 'Image position for split scenes',
-                  },
-                },
-              },
-            },
-            required: ['type', 'duration'],
-          },
-        },
-        theme: {
-          type: 'object',
-          description: 'Visual theme for the video',
-          properties: {
-            primaryColor: { type: 'string', description: 'Primary/accent color (hex)' },
-            secondaryColor: { type: 'string', description: 'Secondary text color (hex)' },
-            backgroundColor: { type: 'string', description: 'Background color (hex)' },
-            fontFamily: { type: 'string', description: 'Font family name' },
-          },
-        },
-        settings: {
-          type: 'object',
-          description: 'Render settings',
-          properties: {
-            width: { type: 'number', default: 1920, description: 'Video width' },
-            height: { type: 'number', default: 1080, description: 'Video height' },
-            fps: { type: 'number', default: 30, description: 'Frames per second' },
-            format: { type: 'string', enum: ['mp4', 'webm', 'gif'], default: 'mp4' },
-          },
-        },
+        jobId: { type: 'string', description: 'Job ID returned by remotion_render_video with async: true' },
       },
-      required: ['scenes'],
+      required: ['jobId'],
     },
   },
   {
-    name: 'remotion_render_image',
-    description: 'Generate a static image (thumbnail, preview) from a scene. Returns a URL to the image.',
+    name: 'remotion_job_result',
+    description: 'Get the output URL of a completed render job',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        jobId: { type: 'string', description: 'Job ID' },
+      },
+      required: ['jobId'],
+    },
+  },
+  {
+    name: 'remotion_job_cancel',
+    description: 'Cancel a queued or running render job',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        jobId: { type: 'string', description: 'Job ID' },
+      },
+      required: ['jobId'],
+    },
+  },
+  {
+    name: 'remotion_job_list',
+    description: 'List recent render jobs with their state and progress',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+
+  // ============================================================================
+  // OUTPUT TOOLS
+  // ============================================================================
+  {
+    name: 'remotion_output_list',
+    description: 'List rendered files kept by the output handler (id, filename, size, createdAt, expiresAt, metadata)',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'remotion_output_delete',
+    description: 'Delete a rendered file. Its URL stops working immediately.',
     inputSchema: {
       type: 'object',
       properties: {
-        scene: {
-          type: 'object',
-          description: 'Scene to render as image',
-          properties: {
-            type: { 
-              type: 'string', 
-              enum: ['title', 'text', 'counter', 'image', 'split', 'list', 'stats', 'intro', 'outro'],
-            },
-            duration: { type: 'number' },
-            content: { type: 'object' },
-          },
-          required: ['type', 'duration'],
-        },
-        theme: {
-          type: 'object',
-          description: 'Visual theme',
-        },
-        settings: {
-          type: 'object',
-          properties: {
-            width: { type: 'number', default: 1920 },
-            height: { type: 'number', default: 1080 },
-            format: { type: 'string', enum: ['png', 'jpeg'], default: 'png' },
-          },
-        },
-        frame: {
-          type: 'number',
-          description: 'Frame number to render (default: 15 for fade-in visibility)',
-          default: 15,
-        },
+        fileId: { type: 'string', description: 'File ID from remotion_output_list' },
       },
-      required: ['scene'],
+      required: ['fileId'],
+    },
+  },
+  {
+    name: 'remotion_output_extend_ttl',
+    description: 'Keep a rendered file available longer. In s3 mode, returns a new presigned URL valid for the given duration.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        fileId: { type: 'string', description: 'File ID from remotion_output_list' },
+        seconds: { type: 'number', description: 'Seconds to add to the expiry' },
+      },
+      required: ['fileId', 'seconds'],
+    },
+  },
+  {
+    name: 'remotion_output_regenerate_token',
+    description: 'Issue a new URL for a rendered file and revoke the previous one (e.g. after a link leaked)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        fileId: { type: 'string', description: 'File ID from remotion_output_list' },
+      },
+      required: ['fileId'],
+    },
+  },
+
+  // ============================================================================
+  // TEMPLATE TOOLS
+  // ============================================================================
+  {
+    name: 'remotion_template_create',
+    description: `Create a custom Remotion template. The code must export a "Main" React component receiving { scenes, theme } as props.
+Read remotion://docs/getting-started and remotion://examples/full-template for the expected structure.`,
+    inputSchema: toInputSchema(templateCreateParamsSchema),
+  },
+  {
+    name: 'remotion_template_list',
+    description: 'List available custom templates (name, description, dates)',
+    inputSchema: {
+      type: 'object',
+      properties: {},
     },
   },
+  {
+    name: 'remotion_template_get',
+    description: 'Get a custom template with its full source code',
+    inputSchema: toInputSchema(templateNameParamsSchema),
+  },
+  {
+    name: 'remotion_template_update',
+    description: 'Update the code, description or input schema of an existing custom template',
+    inputSchema: toInputSchema(templateUpdateParamsSchema),
+  },
+  {
+    name: 'remotion_template_delete',
+    description: 'Delete a custom template',
+    inputSchema: toInputSchema(templateNameParamsSchema),
+  },
+
+  // ============================================================================
+  // STATUS
+  // ============================================================================
   {
     name: 'remotion_status',
     description: 'Get service status: output handler configuration, supported scene types, and render settings',
@@ -191,4 +220,12 @@ Animation options for text: "fade", "slide", "scale", "typewriter"`,
       properties: {},
     },
   },
+  {
+    name: 'remotion_cache_clear',
+    description: 'Delete cached template bundles to free disk space or force a rebundle. Bundles used by running renders are kept.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
 ];
@@ -0,0 +1,32 @@
+/**
+ * Filesystem helpers shared by the bundle cache and the output handlers
+ */
+
+import { randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Files under dir, recursively, sorted. Walked by hand: readdir's recursive option needs Node 18.17.
+ */
+export async function listFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(entryPath));
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Write JSON through a temp file and a rename, so readers never see a partial file
+ */
+export async function writeJsonAtomic(filepath: string, data: unknown): Promise<void> {
+  const tmpPath = `${filepath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(data, null, 2));
+  await fs.rename(tmpPath, filepath);
+}
@@ -0,0 +1,5 @@
+/**
+ * Utils Module
+ */
+
+export * from './fs.js';
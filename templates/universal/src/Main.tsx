@@ -3,9 +3,16 @@
  */
 
 import React from 'react';
-import { useVideoConfig, Sequence, AbsoluteFill } from 'remotion';
+import { useVideoConfig, AbsoluteFill } from 'remotion';
+import { TransitionSeries, linearTiming, TransitionPresentation } from '@remotion/transitions';
+import { fade } from '@remotion/transitions/fade';
+import { slide } from '@remotion/transitions/slide';
+import { wipe } from '@remotion/transitions/wipe';
+import { flip } from '@remotion/transitions/flip';
+import { clockWipe } from '@remotion/transitions/clock-wipe';
 
-import { Theme } from './components/Background';
+import { Theme, TransparentContext } from './components/Background';
+import { AudioTrack, BackgroundAudio } from './components/BackgroundAudio';
 import {
   TitleScene,
   TextScene,
@@ -16,18 +23,28 @@ import {
   StatsScene,
   IntroScene,
   OutroScene,
+  CTAScene,
+  VideoScene,
 } from './scenes';
+import { computeTimeline, ResolvedTransition, TransitionConfig } from './timeline';
 
 export interface SceneConfig {
-  type: 'title' | 'text' | 'counter' | 'image' | 'split' | 'list' | 'stats' | 'intro' | 'outro';
+  type: 'title' | 'text' | 'counter' | 'image' | 'split' | 'list' | 'stats' | 'intro' | 'outro' | 'cta' | 'video';
   duration: number;
+  /** Transition from the previous scene, overriding the global one */
+  transitionIn?: TransitionConfig;
   content: Record<string, any>;
 }
 
-export interface MainProps {
+// Type alias (not interface) so Remotion accepts it as Record<string, unknown> props
+export type MainProps = {
   scenes: SceneConfig[];
   theme?: Theme;
-}
+  audio?: AudioTrack;
+  transition?: TransitionConfig;
+  /** Skip background fills, for renders with an alpha channel */
+  transparent?: boolean;
+};
 
 const renderScene = (scene: SceneConfig, theme: Theme) => {
   const props = { content: scene.content, theme };
@@ -51,13 +68,37 @@ const renderScene = (scene: SceneConfig, theme: Theme) => {
       return <IntroScene {...props} />;
     case 'outro':
       return <OutroScene {...props} />;
+    case 'cta':
+      return <CTAScene {...props} />;
+    case 'video':
+      return <VideoScene {...props} />;
     default:
       return <TextScene {...props} />;
   }
 };
 
-export const Main: React.FC<MainProps> = ({ scenes, theme = {} }) => {
-  const { fps } = useVideoConfig();
+const getPresentation = (
+  transition: ResolvedTransition,
+  width: number,
+  height: number
+): TransitionPresentation<any> => {
+  const { direction } = transition;
+  switch (transition.type) {
+    case 'slide':
+      return slide({ direction });
+    case 'wipe':
+      return wipe({ direction });
+    case 'flip':
+      return flip({ direction });
+    case 'clockWipe':
+      return clockWipe({ width, height });
+    default:
+      return fade();
+  }
+};
+
+export const Main: React.FC<MainProps> = ({ scenes, theme = {}, audio, transition, transparent = false }) => {
+  const { fps, width, height } = useVideoConfig();
   
   const finalTheme: Theme = {
     primaryColor: theme.primaryColor || '#E85D04',
@@ -69,7 +110,7 @@ export const Main: React.FC<MainProps> = ({ scenes, theme = {} }) => {
   if (!scenes || scenes.length === 0) {
     return (
       <AbsoluteFill style={{ 
-        backgroundColor: finalTheme.backgroundColor,
+        backgroundColor: transparent ? undefined : finalTheme.backgroundColor,
         justifyContent: 'center',
         alignItems: 'center',
         fontFamily: finalTheme.fontFamily,
@@ -81,27 +122,36 @@ export const Main: React.FC<MainProps> = ({ scenes, theme = {} }) => {
     );
   }
   
-  let currentFrame = 0;
+  const timeline = computeTimeline(scenes, transition, fps);
   
   return (
-    <AbsoluteFill>
-      {scenes.map((scene, index) => {
-        const durationFrames = Math.round(scene.duration * fps);
-        const fromFrame = currentFrame;
-        currentFrame += durationFrames;
-        
-        return (
-          <Sequence
-            key={index}
-            from={fromFrame}
-            durationInFrames={durationFrames}
-            name={`Scene ${index + 1}: ${scene.type}`}
-          >
-            {renderScene(scene, finalTheme)}
-          </Sequence>
-        );
-      })}
-    </AbsoluteFill>
+    <TransparentContext.Provider value={transparent}>
+      <AbsoluteFill>
+        {audio?.src && <BackgroundAudio track={audio} />}
+        <TransitionSeries>
+          {scenes.map((scene, index) => {
+            const { durationInFrames, transitionIn } = timeline.scenes[index];
+          
+            return (
+              <React.Fragment key={index}>
+                {transitionIn && (
+                  <TransitionSeries.Transition
+                    presentation={getPresentation(transitionIn, width, height)}
+                    timing={linearTiming({ durationInFrames: transitionIn.durationInFrames })}
+                  />
+                )}
+                <TransitionSeries.Sequence
+                  durationInFrames={durationInFrames}
+                  name={`Scene ${index + 1}: ${scene.type}`}
+                >
+                  {renderScene(scene, finalTheme)}
+                </TransitionSeries.Sequence>
+              </React.Fragment>
+            );
+          })}
+        </TransitionSeries>
+      </AbsoluteFill>
+    </TransparentContext.Provider>
   );
 };
 
@@ -5,18 +5,23 @@
 import React from 'react';
 import { Composition } from 'remotion';
 import { Main, MainProps } from './Main';
+import { computeTimeline } from './timeline';
 
 const DEFAULT_FPS = 30;
 const DEFAULT_WIDTH = 1920;
 const DEFAULT_HEIGHT = 1080;
 const DEFAULT_DURATION_SEC = 10;
 
-const calculateDuration = (scenes: MainProps['scenes'], fps: number): number => {
+const calculateDuration = (
+  scenes: MainProps['scenes'],
+  transition: MainProps['transition'],
+  fps: number
+): number => {
   if (!scenes || scenes.length === 0) {
     return DEFAULT_DURATION_SEC * fps;
   }
-  const totalSeconds = scenes.reduce((acc, scene) => acc + (scene.duration || 3), 0);
-  return Math.round(totalSeconds * fps);
+  // Transitions overlap consecutive scenes
+  return computeTimeline(scenes, transition, fps).durationInFrames;
 };
 
 export const Root: React.FC = () => {
@@ -42,7 +47,7 @@ export const Root: React.FC = () => {
           const scenes = props?.scenes || defaultProps.scenes;
           const fps = DEFAULT_FPS;
           return {
-            durationInFrames: calculateDuration(scenes, fps),
+            durationInFrames: calculateDuration(scenes, props?.transition, fps),
             fps,
             width: DEFAULT_WIDTH,
             height: DEFAULT_HEIGHT,
@@ -2,9 +2,16 @@
  * Background components for Remotion scenes
  */
 
-import React from 'react';
+import React, { createContext, useContext } from 'react';
 import { useCurrentFrame, AbsoluteFill } from 'remotion';
 
+/**
+ * True for transparent renders: backgrounds and scene roots skip their fills
+ */
+export const TransparentContext = createContext(false);
+
+export const useTransparent = () => useContext(TransparentContext);
+
 export interface Theme {
   primaryColor?: string;
   secondaryColor?: string;
@@ -40,6 +47,7 @@ export const Background: React.FC<BackgroundProps> = ({
   animated = true,
 }) => {
   const frame = useCurrentFrame();
+  const transparent = useTransparent();
   const isDark = variant === 'dark';
   
   const bgColor = theme.backgroundColor || (isDark ? DEFAULT_COLORS.dark : DEFAULT_COLORS.light);
@@ -50,6 +58,8 @@ export const Background: React.FC<BackgroundProps> = ({
   
   const accentOpacity = isDark ? '25' : '12';
   const accentLightOpacity = isDark ? '18' : '08';
+
+  if (transparent) return null;
   
   return (
     <AbsoluteFill style={{ backgroundColor: bgColor, overflow: 'hidden' }}>
@@ -0,0 +1,58 @@
+/**
+ * Background audio track spanning the whole video
+ */
+
+import React from 'react';
+import { Audio, interpolate, staticFile, useVideoConfig } from 'remotion';
+
+export interface AudioTrack {
+  /** http(s) URL, data: URI, or file name in the template's public/ folder */
+  src: string;
+  volume?: number;
+  /** Seconds to skip at the start of the track */
+  startFrom?: number;
+  /** Fade-in duration in seconds */
+  fadeIn?: number;
+  /** Fade-out duration in seconds, ending with the video */
+  fadeOut?: number;
+  loop?: boolean;
+}
+
+const resolveSrc = (src: string) =>
+  /^(https?:|data:|blob:)/.test(src) ? src : staticFile(src.replace(/^\/+/, ''));
+
+export const BackgroundAudio: React.FC<{ track: AudioTrack }> = ({ track }) => {
+  const { fps, durationInFrames } = useVideoConfig();
+
+  const volume = track.volume ?? 1;
+  const fadeInFrames = Math.round((track.fadeIn ?? 0) * fps);
+  const fadeOutFrames = Math.min(Math.round((track.fadeOut ?? 0) * fps), durationInFrames);
+
+  const getVolume = (frame: number) => {
+    let level = volume;
+    if (fadeInFrames > 0) {
+      level *= interpolate(frame, [0, fadeInFrames], [0, 1], {
+        extrapolateLeft: 'clamp',
+        extrapolateRight: 'clamp',
+      });
+    }
+    if (fadeOutFrames > 0) {
+      level *= interpolate(frame, [durationInFrames - fadeOutFrames, durationInFrames], [1, 0], {
+        extrapolateLeft: 'clamp',
+        extrapolateRight: 'clamp',
+      });
+    }
+    return level;
+  };
+
+  return (
+    <Audio
+      src={resolveSrc(track.src)}
+      volume={getVolume}
+      trimBefore={Math.round((track.startFrom ?? 0) * fps) || undefined}
+      loop={track.loop}
+      // Keep counting frames across loops so fades follow the video, not each repetition
+      loopVolumeCurveBehavior="extend"
+    />
+  );
+};
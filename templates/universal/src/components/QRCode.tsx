@@ -0,0 +1,109 @@
+/**
+ * QR Code component (SVG-based)
+ *
+ * Standards-compliant encoding via qrcode-generator (ISO/IEC 18004),
+ * with error-correction level, quiet zone, colours and an optional centre logo.
+ */
+
+import React from 'react';
+import { Img } from 'remotion';
+import qrcode from 'qrcode-generator';
+
+export type QRErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QRCodeProps {
+  value: string;
+  /** Total size in pixels, quiet zone included */
+  size?: number;
+  /** Error-correction level (default: M, or H when a logo is set) */
+  level?: QRErrorCorrectionLevel;
+  /** Quiet zone width in modules (the spec requires 4) */
+  quietZone?: number;
+  fgColor?: string;
+  bgColor?: string;
+  logoUrl?: string;
+  /** Logo size as a fraction of the code width (default: 0.2, capped by level) */
+  logoSize?: number;
+}
+
+/**
+ * Largest logo per level: the modules it hides must stay well within
+ * what error correction recovers (about 7%, 15%, 25% and 30% of the code)
+ */
+export const MAX_LOGO_SIZE: Record<QRErrorCorrectionLevel, number> = {
+  L: 0.15,
+  M: 0.2,
+  Q: 0.25,
+  H: 0.3,
+};
+
+// The library reads each char code as one byte: pass UTF-8 bytes that way
+const toByteString = (text: string): string =>
+  String.fromCharCode(...new TextEncoder().encode(text));
+
+export const QRCode: React.FC<QRCodeProps> = ({
+  value,
+  size = 180,
+  level,
+  quietZone = 4,
+  fgColor = '#000000',
+  bgColor = '#ffffff',
+  logoUrl,
+  logoSize = 0.2,
+}) => {
+  const errorCorrection = level || (logoUrl ? 'H' : 'M');
+  const qr = qrcode(0, errorCorrection);
+  qr.addData(toByteString(value), 'Byte');
+  qr.make();
+
+  const moduleCount = qr.getModuleCount();
+  const totalModules = moduleCount + quietZone * 2;
+  const moduleSize = size / totalModules;
+
+  // Modules hidden behind the logo, kept odd-sized so the hole is centred
+  const logoRatio = Math.min(logoSize, MAX_LOGO_SIZE[errorCorrection]);
+  let logoModules = logoUrl ? Math.ceil(moduleCount * logoRatio) : 0;
+  if (logoModules > 0 && logoModules % 2 === 0) logoModules++;
+  const logoStart = Math.floor((moduleCount - logoModules) / 2);
+  const isUnderLogo = (row: number, col: number) =>
+    logoModules > 0 &&
+    row >= logoStart && row < logoStart + logoModules &&
+    col >= logoStart && col < logoStart + logoModules;
+
+  let path = '';
+  for (let row = 0; row < moduleCount; row++) {
+    for (let col = 0; col < moduleCount; col++) {
+      if (qr.isDark(row, col) && !isUnderLogo(row, col)) {
+        path += `M${col + quietZone} ${row + quietZone}h1v1h-1z`;
+      }
+    }
+  }
+
+  return (
+    <div style={{ position: 'relative', width: size, height: size }}>
+      <svg
+        width={size}
+        height={size}
+        viewBox={`0 0 ${totalModules} ${totalModules}`}
+        shapeRendering="crispEdges"
+      >
+        <rect width={totalModules} height={totalModules} fill={bgColor} />
+        <path d={path} fill={fgColor} />
+      </svg>
+      {logoUrl && (
+        <Img
+          src={logoUrl}
+          style={{
+            position: 'absolute',
+            left: (logoStart + quietZone) * moduleSize,
+            top: (logoStart + quietZone) * moduleSize,
+            width: logoModules * moduleSize,
+            height: logoModules * moduleSize,
+            objectFit: 'contain',
+            backgroundColor: bgColor,
+          }}
+        />
+      )}
+    </div>
+  );
+};
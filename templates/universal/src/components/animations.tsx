@@ -10,6 +10,7 @@ import {
   interpolate,
   spring,
 } from 'remotion';
+import { useLayout } from './layout';
 
 // ============================================================================
 // FADE IN
@@ -55,6 +56,7 @@ export const SlideIn: React.FC<SlideInProps> = ({
 }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
+  const { px } = useLayout();
   
   const durationFrames = Math.round(duration * fps);
   const progress = spring({
@@ -65,10 +67,10 @@ export const SlideIn: React.FC<SlideInProps> = ({
   });
   
   const offsets = {
-    up: { x: 0, y: 50 },
-    down: { x: 0, y: -50 },
-    left: { x: 50, y: 0 },
-    right: { x: -50, y: 0 },
+    up: { x: 0, y: px(50) },
+    down: { x: 0, y: -px(50) },
+    left: { x: px(50), y: 0 },
+    right: { x: -px(50), y: 0 },
   };
   
   const { x, y } = offsets[direction];
@@ -148,6 +150,7 @@ export const AnimatedText: React.FC<AnimatedTextProps> = ({
 }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
+  const { px } = useLayout();
   
   const words = text.split(' ');
   
@@ -185,7 +188,7 @@ export const AnimatedText: React.FC<AnimatedTextProps> = ({
             fps,
             config: { damping: 15, stiffness: 150 },
           });
-          const y = interpolate(progress, [0, 1], [30, 0]);
+          const y = interpolate(progress, [0, 1], [px(30), 0]);
           opacity = interpolate(frame - wordDelay, [0, 8], [0, 1], {
             extrapolateLeft: 'clamp',
             extrapolateRight: 'clamp',
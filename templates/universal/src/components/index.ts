@@ -1,2 +1,5 @@
 export * from './animations';
 export * from './Background';
+export * from './QRCode';
+export * from './BackgroundAudio';
+export * from './layout';
@@ -0,0 +1,34 @@
+/**
+ * Responsive layout for any canvas size
+ *
+ * Scenes are designed in pixels for a 1920×1080 canvas whose text needs about
+ * 1280px of width. Sizes scale by whichever of the two runs out first, so
+ * 9:16, 1:1 and 4:5 canvases shrink text to fit their width, and 4K doubles it.
+ */
+
+import { useVideoConfig } from 'remotion';
+
+export const REFERENCE_HEIGHT = 1080;
+export const REFERENCE_TEXT_WIDTH = 1280;
+
+export const getLayoutScale = (width: number, height: number): number =>
+  Math.min(width / REFERENCE_TEXT_WIDTH, height / REFERENCE_HEIGHT);
+
+export interface Layout {
+  scale: number;
+  /** A design size in 1080p pixels, scaled to the canvas */
+  px: (size: number) => number;
+  /** Canvas taller than wide: side-by-side layouts stack vertically */
+  portrait: boolean;
+}
+
+export const useLayout = (): Layout => {
+  const { width, height } = useVideoConfig();
+  const scale = getLayoutScale(width, height);
+
+  return {
+    scale,
+    px: (size: number) => Math.round(size * scale),
+    portrait: height > width,
+  };
+};
@@ -0,0 +1,184 @@
+/**
+ * CTA Scene - Call-to-action with QR code
+ */
+
+import React from 'react';
+import { AbsoluteFill, useCurrentFrame, useVideoConfig, spring, interpolate } from 'remotion';
+import { Background, Theme, DEFAULT_COLORS } from '../components/Background';
+import { AnimatedText } from '../components/animations';
+import { QRCode, QRErrorCorrectionLevel } from '../components/QRCode';
+import { useLayout } from '../components/layout';
+
+export interface CTASceneProps {
+  content: {
+    title?: string;
+    subtitle?: string;
+    url?: string;
+    cta?: string;
+    qrCode?: boolean;
+    qrSize?: number;
+    qrPosition?: 'left' | 'right' | 'center';
+    qrLevel?: QRErrorCorrectionLevel;
+    qrQuietZone?: number;
+    qrFgColor?: string;
+    qrBgColor?: string;
+    qrLogoUrl?: string;
+    qrLogoSize?: number;
+    variant?: 'dark' | 'light';
+    titleColor?: string;
+  };
+  theme: Theme;
+}
+
+export const CTAScene: React.FC<CTASceneProps> = ({ content, theme }) => {
+  const { px, portrait } = useLayout();
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  
+  const variant = content.variant || 'dark';
+  const isDark = variant === 'dark';
+  const accentColor = content.titleColor || theme.primaryColor || DEFAULT_COLORS.primary;
+  const textColor = isDark ? DEFAULT_COLORS.white : DEFAULT_COLORS.dark;
+  const showQR = content.qrCode !== false;
+  const qrSize = px(content.qrSize || 180);
+  const qrPosition = content.qrPosition || 'right';
+  // Portrait canvases have no room for the QR code beside the text
+  const stacked = qrPosition === 'center' || portrait;
+  const qrBgColor = content.qrBgColor || '#ffffff';
+  
+  const qrScale = spring({
+    frame: frame - 20,
+    fps,
+    config: { damping: 12, stiffness: 100 },
+  });
+  const qrOpacity = interpolate(frame - 20, [0, 15], [0, 1], {
+    extrapolateLeft: 'clamp',
+    extrapolateRight: 'clamp',
+  });
+  const urlOpacity = interpolate(frame - 15, [0, 15], [0, 1], {
+    extrapolateLeft: 'clamp',
+    extrapolateRight: 'clamp',
+  });
+  const buttonScale = spring({
+    frame: frame - 30,
+    fps,
+    config: { damping: 10, stiffness: 150 },
+  });
+  const buttonPulse = 1 + Math.sin(frame * 0.1) * 0.02;
+  const buttonOpacity = interpolate(frame - 30, [0, 15], [0, 1], {
+    extrapolateLeft: 'clamp',
+    extrapolateRight: 'clamp',
+  });
+  
+  const textSection = (
+    <div style={{
+      flex: 1,
+      display: 'flex',
+      flexDirection: 'column',
+      justifyContent: 'center',
+      alignItems: stacked ? 'center' : 'flex-start',
+    }}>
+      {content.title && (
+        <AnimatedText
+          text={content.title}
+          color={accentColor}
+          fontSize={px(56)}
+          fontWeight="bold"
+          delay={0}
+          animation="scale"
+        />
+      )}
+      
+      {content.subtitle && (
+        <div style={{ marginTop: px(16) }}>
+          <AnimatedText
+            text={content.subtitle}
+            color={textColor}
+            fontSize={px(28)}
+            fontWeight="normal"
+            delay={10}
+            animation="fade"
+          />
+        </div>
+      )}
+      
+      {content.url && (
+        <div style={{ marginTop: px(24), opacity: urlOpacity }}>
+          <span style={{ color: accentColor, fontSize: px(24), fontWeight: 'bold' }}>
+            {content.url}
+          </span>
+        </div>
+      )}
+      
+      {content.cta && (
+        <div style={{
+          marginTop: px(30),
+          transform: `scale(${buttonScale * buttonPulse})`,
+          opacity: buttonOpacity,
+        }}>
+          <div style={{
+            display: 'inline-block',
+            backgroundColor: accentColor,
+            color: '#fff',
+            fontSize: px(22),
+            fontWeight: 'bold',
+            padding: `${px(14)}px ${px(40)}px`,
+            borderRadius: px(50),
+            boxShadow: `0 8px 30px ${accentColor}60`,
+          }}>
+            {content.cta}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+  
+  const qrSection = showQR && content.url && (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'center',
+      transform: `scale(${qrScale})`,
+      opacity: qrOpacity,
+      padding: stacked ? `${px(40)}px 0 0 0` : `0 ${px(60)}px`,
+    }}>
+      <div style={{
+        backgroundColor: qrBgColor,
+        borderRadius: px(16),
+        overflow: 'hidden',
+        boxShadow: '0 8px 30px rgba(0,0,0,0.2)',
+      }}>
+        <QRCode
+          value={content.url}
+          size={qrSize}
+          level={content.qrLevel}
+          quietZone={content.qrQuietZone}
+          fgColor={content.qrFgColor || '#000000'}
+          bgColor={qrBgColor}
+          logoUrl={content.qrLogoUrl}
+          logoSize={content.qrLogoSize}
+        />
+      </div>
+      <p style={{ color: textColor, fontSize: px(16), marginTop: px(12), opacity: 0.7 }}>
+        Scannez pour accéder
+      </p>
+    </div>
+  );
+  
+  return (
+    <AbsoluteFill style={{ fontFamily: theme.fontFamily || 'Arial, sans-serif' }}>
+      <Background variant={variant} theme={theme} />
+      <AbsoluteFill style={{
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: px(80),
+        flexDirection: stacked ? 'column' : 'row',
+      }}>
+        {qrPosition === 'left' && qrSection}
+        {textSection}
+        {qrPosition !== 'left' && qrSection}
+      </AbsoluteFill>
+    </AbsoluteFill>
+  );
+};
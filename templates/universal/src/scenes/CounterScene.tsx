@@ -6,6 +6,7 @@ import React from 'react';
 import { AbsoluteFill } from 'remotion';
 import { Background, Theme, DEFAULT_COLORS } from '../components/Background';
 import { AnimatedCounter, AnimatedText } from '../components/animations';
+import { useLayout } from '../components/layout';
 
 export interface CounterSceneProps {
   content: {
@@ -20,6 +21,7 @@ export interface CounterSceneProps {
 }
 
 export const CounterScene: React.FC<CounterSceneProps> = ({ content, theme }) => {
+  const { px } = useLayout();
   const variant = content.variant || 'dark';
   const isDark = variant === 'dark';
   const counterColor = content.titleColor || theme.primaryColor || DEFAULT_COLORS.primary;
@@ -42,15 +44,15 @@ export const CounterScene: React.FC<CounterSceneProps> = ({ content, theme }) =>
             suffix={content.suffix || ''}
             prefix={content.prefix || ''}
             color={counterColor}
-            fontSize={140}
+            fontSize={px(140)}
             delay={5}
           />
           {content.label && (
-            <div style={{ marginTop: 16 }}>
+            <div style={{ marginTop: px(16) }}>
               <AnimatedText
                 text={content.label}
                 color={labelColor}
-                fontSize={40}
+                fontSize={px(40)}
                 fontWeight="normal"
                 delay={15}
                 animation="fade"
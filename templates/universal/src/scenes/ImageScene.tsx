@@ -4,7 +4,8 @@
 
 import React from 'react';
 import { AbsoluteFill, useCurrentFrame, useVideoConfig, interpolate, Img } from 'remotion';
-import { Background, Theme } from '../components/Background';
+import { Background, Theme, useTransparent } from '../components/Background';
+import { useLayout } from '../components/layout';
 
 export interface ImageSceneProps {
   content: {
@@ -17,7 +18,9 @@ export interface ImageSceneProps {
 }
 
 export const ImageScene: React.FC<ImageSceneProps> = ({ content, theme }) => {
+  const { px } = useLayout();
   const frame = useCurrentFrame();
+  const transparent = useTransparent();
   const { durationInFrames } = useVideoConfig();
   
   const animation = content.animation || 'zoom-in';
@@ -45,14 +48,14 @@ export const ImageScene: React.FC<ImageSceneProps> = ({ content, theme }) => {
       <AbsoluteFill style={{ fontFamily: theme.fontFamily || 'Arial, sans-serif' }}>
         <Background variant="dark" theme={theme} />
         <AbsoluteFill style={{ justifyContent: 'center', alignItems: 'center' }}>
-          <p style={{ color: '#666', fontSize: 24 }}>No image URL provided</p>
+          <p style={{ color: '#666', fontSize: px(24) }}>No image URL provided</p>
         </AbsoluteFill>
       </AbsoluteFill>
     );
   }
   
   return (
-    <AbsoluteFill style={{ backgroundColor: '#000' }}>
+    <AbsoluteFill style={{ backgroundColor: transparent ? undefined : '#000' }}>
       <Img
         src={content.url}
         style={{
@@ -67,14 +70,14 @@ export const ImageScene: React.FC<ImageSceneProps> = ({ content, theme }) => {
           background: 'linear-gradient(transparent 50%, rgba(0,0,0,0.8) 100%)',
           justifyContent: 'flex-end',
           alignItems: 'center',
-          padding: 60,
+          padding: px(60),
           fontFamily: theme.fontFamily || 'Arial, sans-serif',
         }}>
           <div style={{ textAlign: 'center' }}>
             {content.title && (
               <h2 style={{ 
                 color: '#fff', 
-                fontSize: 48, 
+                fontSize: px(48), 
                 margin: 0,
                 textShadow: '0 2px 10px rgba(0,0,0,0.5)',
               }}>
@@ -84,8 +87,8 @@ export const ImageScene: React.FC<ImageSceneProps> = ({ content, theme }) => {
             {content.subtitle && (
               <p style={{ 
                 color: 'rgba(255,255,255,0.8)', 
-                fontSize: 24, 
-                marginTop: 10,
+                fontSize: px(24), 
+                marginTop: px(10),
               }}>
                 {content.subtitle}
               </p>
@@ -6,6 +6,7 @@ import React from 'react';
 import { AbsoluteFill, useCurrentFrame, useVideoConfig, spring, interpolate, Img } from 'remotion';
 import { Background, Theme, DEFAULT_COLORS } from '../components/Background';
 import { AnimatedText } from '../components/animations';
+import { useLayout } from '../components/layout';
 
 export interface IntroSceneProps {
   content: {
@@ -19,6 +20,7 @@ export interface IntroSceneProps {
 }
 
 export const IntroScene: React.FC<IntroSceneProps> = ({ content, theme }) => {
+  const { px } = useLayout();
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
   
@@ -52,26 +54,26 @@ export const IntroScene: React.FC<IntroSceneProps> = ({ content, theme }) => {
             <div style={{
               transform: `scale(${logoScale}) rotate(${logoRotation}deg)`,
               opacity: logoOpacity,
-              marginBottom: 40,
+              marginBottom: px(40),
             }}>
               <Img
                 src={content.logoUrl}
                 style={{
-                  width: 150,
-                  height: 150,
+                  width: px(150),
+                  height: px(150),
                   objectFit: 'contain',
                 }}
               />
             </div>
           ) : (
             <div style={{
-              width: 120,
-              height: 120,
+              width: px(120),
+              height: px(120),
               borderRadius: '50%',
               backgroundColor: titleColor,
               transform: `scale(${logoScale})`,
               opacity: logoOpacity,
-              marginBottom: 40,
+              marginBottom: px(40),
               display: 'flex',
               justifyContent: 'center',
               alignItems: 'center',
@@ -79,7 +81,7 @@ export const IntroScene: React.FC<IntroSceneProps> = ({ content, theme }) => {
             }}>
               <span style={{ 
                 color: '#fff', 
-                fontSize: 48, 
+                fontSize: px(48), 
                 fontWeight: 'bold' 
               }}>
                 {content.title?.charAt(0) || '?'}
@@ -91,7 +93,7 @@ export const IntroScene: React.FC<IntroSceneProps> = ({ content, theme }) => {
             <AnimatedText
               text={content.title}
               color={titleColor}
-              fontSize={72}
+              fontSize={px(72)}
               fontWeight="bold"
               delay={15}
               animation="scale"
@@ -99,11 +101,11 @@ export const IntroScene: React.FC<IntroSceneProps> = ({ content, theme }) => {
           )}
           
           {content.subtitle && (
-            <div style={{ marginTop: 20 }}>
+            <div style={{ marginTop: px(20) }}>
               <AnimatedText
                 text={content.subtitle}
                 color={subtitleColor}
-                fontSize={32}
+                fontSize={px(32)}
                 fontWeight="normal"
                 delay={25}
                 animation="fade"
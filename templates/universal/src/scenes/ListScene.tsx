@@ -6,6 +6,7 @@ import React from 'react';
 import { AbsoluteFill, useCurrentFrame, useVideoConfig, spring, interpolate } from 'remotion';
 import { Background, Theme, DEFAULT_COLORS } from '../components/Background';
 import { AnimatedText } from '../components/animations';
+import { useLayout } from '../components/layout';
 
 export interface ListSceneProps {
   content: {
@@ -18,6 +19,7 @@ export interface ListSceneProps {
 }
 
 export const ListScene: React.FC<ListSceneProps> = ({ content, theme }) => {
+  const { px } = useLayout();
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
   
@@ -33,22 +35,22 @@ export const ListScene: React.FC<ListSceneProps> = ({ content, theme }) => {
       <AbsoluteFill style={{ 
         justifyContent: 'center', 
         alignItems: 'center',
-        padding: 80,
+        padding: px(80),
       }}>
         <div style={{ maxWidth: '80%' }}>
           {content.title && (
-            <div style={{ marginBottom: 50, textAlign: 'center' }}>
+            <div style={{ marginBottom: px(50), textAlign: 'center' }}>
               <AnimatedText
                 text={content.title}
                 color={titleColor}
-                fontSize={52}
+                fontSize={px(52)}
                 fontWeight="bold"
                 delay={0}
                 animation="slide"
               />
             </div>
           )}
-          <div style={{ display: 'flex', flexDirection: 'column', gap: 20 }}>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: px(20) }}>
             {items.map((item, i) => {
               const delay = 15 + i * 8;
               const progress = spring({
@@ -68,21 +70,21 @@ export const ListScene: React.FC<ListSceneProps> = ({ content, theme }) => {
                   style={{
                     display: 'flex',
                     alignItems: 'center',
-                    gap: 20,
+                    gap: px(20),
                     transform: `translateX(${x}px)`,
                     opacity,
                   }}
                 >
                   <div style={{
-                    width: 12,
-                    height: 12,
+                    width: px(12),
+                    height: px(12),
                     borderRadius: '50%',
                     backgroundColor: titleColor,
                     flexShrink: 0,
                   }} />
                   <span style={{
                     color: textColor,
-                    fontSize: 32,
+                    fontSize: px(32),
                   }}>
                     {item}
                   </span>
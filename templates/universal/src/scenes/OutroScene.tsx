@@ -6,6 +6,7 @@ import React from 'react';
 import { AbsoluteFill, useCurrentFrame, useVideoConfig, spring, interpolate } from 'remotion';
 import { Background, Theme, DEFAULT_COLORS } from '../components/Background';
 import { AnimatedText, FadeIn } from '../components/animations';
+import { useLayout } from '../components/layout';
 
 export interface OutroSceneProps {
   content: {
@@ -20,6 +21,7 @@ export interface OutroSceneProps {
 }
 
 export const OutroScene: React.FC<OutroSceneProps> = ({ content, theme }) => {
+  const { px } = useLayout();
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
   
@@ -51,7 +53,7 @@ export const OutroScene: React.FC<OutroSceneProps> = ({ content, theme }) => {
             <AnimatedText
               text={content.title}
               color={accentColor}
-              fontSize={64}
+              fontSize={px(64)}
               fontWeight="bold"
               delay={0}
               animation="scale"
@@ -59,11 +61,11 @@ export const OutroScene: React.FC<OutroSceneProps> = ({ content, theme }) => {
           )}
           
           {content.subtitle && (
-            <div style={{ marginTop: 16 }}>
+            <div style={{ marginTop: px(16) }}>
               <AnimatedText
                 text={content.subtitle}
                 color={textColor}
-                fontSize={32}
+                fontSize={px(32)}
                 fontWeight="normal"
                 delay={12}
                 animation="fade"
@@ -75,8 +77,8 @@ export const OutroScene: React.FC<OutroSceneProps> = ({ content, theme }) => {
             <FadeIn delay={20}>
               <p style={{ 
                 color: textColor, 
-                fontSize: 28, 
-                marginTop: 30,
+                fontSize: px(28), 
+                marginTop: px(30),
                 opacity: 0.9,
               }}>
                 {content.text}
@@ -86,7 +88,7 @@ export const OutroScene: React.FC<OutroSceneProps> = ({ content, theme }) => {
           
           {content.cta && (
             <div style={{
-              marginTop: 40,
+              marginTop: px(40),
               transform: `scale(${ctaScale * ctaPulse})`,
               opacity: ctaOpacity,
             }}>
@@ -94,10 +96,10 @@ export const OutroScene: React.FC<OutroSceneProps> = ({ content, theme }) => {
                 display: 'inline-block',
                 backgroundColor: accentColor,
                 color: '#fff',
-                fontSize: 24,
+                fontSize: px(24),
                 fontWeight: 'bold',
-                padding: '16px 48px',
-                borderRadius: 50,
+                padding: `${px(16)}px ${px(48)}px`,
+                borderRadius: px(50),
                 boxShadow: `0 8px 30px ${accentColor}60`,
               }}>
                 {content.cta}
@@ -6,6 +6,7 @@ import React from 'react';
 import { AbsoluteFill, useCurrentFrame, useVideoConfig, spring, interpolate, Img } from 'remotion';
 import { Background, Theme, DEFAULT_COLORS } from '../components/Background';
 import { AnimatedText, FadeIn } from '../components/animations';
+import { useLayout } from '../components/layout';
 
 export interface SplitSceneProps {
   content: {
@@ -21,6 +22,7 @@ export interface SplitSceneProps {
 }
 
 export const SplitScene: React.FC<SplitSceneProps> = ({ content, theme }) => {
+  const { px, portrait } = useLayout();
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
   
@@ -35,7 +37,8 @@ export const SplitScene: React.FC<SplitSceneProps> = ({ content, theme }) => {
     fps,
     config: { damping: 20, stiffness: 80 },
   });
-  const imageX = interpolate(imageProgress, [0, 1], [imagePosition === 'left' ? -100 : 100, 0]);
+  // Portrait canvases stack the image above (left) or below (right) the text
+  const imageOffset = interpolate(imageProgress, [0, 1], [px(imagePosition === 'left' ? -100 : 100), 0]);
   const imageOpacity = interpolate(frame, [0, 15], [0, 1], {
     extrapolateLeft: 'clamp',
     extrapolateRight: 'clamp',
@@ -47,24 +50,24 @@ export const SplitScene: React.FC<SplitSceneProps> = ({ content, theme }) => {
       display: 'flex', 
       flexDirection: 'column',
       justifyContent: 'center',
-      padding: 60,
+      padding: px(60),
     }}>
       {content.title && (
         <AnimatedText
           text={content.title}
           color={titleColor}
-          fontSize={52}
+          fontSize={px(52)}
           fontWeight="bold"
           delay={10}
           animation="slide"
         />
       )}
       {content.subtitle && (
-        <div style={{ marginTop: 16 }}>
+        <div style={{ marginTop: px(16) }}>
           <AnimatedText
             text={content.subtitle}
             color={textColor}
-            fontSize={28}
+            fontSize={px(28)}
             fontWeight="normal"
             delay={18}
             animation="fade"
@@ -75,8 +78,8 @@ export const SplitScene: React.FC<SplitSceneProps> = ({ content, theme }) => {
         <FadeIn delay={25}>
           <p style={{ 
             color: textColor, 
-            fontSize: 22, 
-            marginTop: 24,
+            fontSize: px(22), 
+            marginTop: px(24),
             lineHeight: 1.6,
             opacity: 0.85,
           }}>
@@ -91,7 +94,7 @@ export const SplitScene: React.FC<SplitSceneProps> = ({ content, theme }) => {
     <div style={{ 
       flex: 1,
       overflow: 'hidden',
-      transform: `translateX(${imageX}px)`,
+      transform: portrait ? `translateY(${imageOffset}px)` : `translateX(${imageOffset}px)`,
       opacity: imageOpacity,
     }}>
       {content.imageUrl ? (
@@ -123,7 +126,7 @@ export const SplitScene: React.FC<SplitSceneProps> = ({ content, theme }) => {
     <AbsoluteFill style={{ fontFamily: theme.fontFamily || 'Arial, sans-serif' }}>
       <Background variant={variant} theme={theme} animated={false} />
       <AbsoluteFill style={{ 
-        flexDirection: 'row',
+        flexDirection: portrait ? 'column' : 'row',
         display: 'flex',
       }}>
         {imagePosition === 'left' ? (
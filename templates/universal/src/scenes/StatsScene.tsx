@@ -6,6 +6,7 @@ import React from 'react';
 import { AbsoluteFill, useCurrentFrame, useVideoConfig, spring, interpolate } from 'remotion';
 import { Background, Theme, DEFAULT_COLORS } from '../components/Background';
 import { AnimatedText, AnimatedCounter } from '../components/animations';
+import { useLayout } from '../components/layout';
 
 interface Stat {
   value: string | number;
@@ -23,6 +24,7 @@ export interface StatsSceneProps {
 }
 
 export const StatsScene: React.FC<StatsSceneProps> = ({ content, theme }) => {
+  const { px } = useLayout();
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
   
@@ -38,15 +40,15 @@ export const StatsScene: React.FC<StatsSceneProps> = ({ content, theme }) => {
       <AbsoluteFill style={{ 
         justifyContent: 'center', 
         alignItems: 'center',
-        padding: 60,
+        padding: px(60),
       }}>
-        <div style={{ width: '100%', maxWidth: 1200 }}>
+        <div style={{ width: '100%', maxWidth: px(1200) }}>
           {content.title && (
-            <div style={{ marginBottom: 60, textAlign: 'center' }}>
+            <div style={{ marginBottom: px(60), textAlign: 'center' }}>
               <AnimatedText
                 text={content.title}
                 color={accentColor}
-                fontSize={48}
+                fontSize={px(48)}
                 fontWeight="bold"
                 delay={0}
                 animation="slide"
@@ -56,7 +58,7 @@ export const StatsScene: React.FC<StatsSceneProps> = ({ content, theme }) => {
           <div style={{ 
             display: 'flex', 
             justifyContent: 'center',
-            gap: 80,
+            gap: px(80),
             flexWrap: 'wrap',
           }}>
             {stats.map((stat, i) => {
@@ -89,13 +91,13 @@ export const StatsScene: React.FC<StatsSceneProps> = ({ content, theme }) => {
                     value={numValue}
                     suffix={stat.suffix || ''}
                     color={accentColor}
-                    fontSize={72}
+                    fontSize={px(72)}
                     delay={delay}
                   />
                   <p style={{
                     color: textColor,
-                    fontSize: 24,
-                    marginTop: 10,
+                    fontSize: px(24),
+                    marginTop: px(10),
                     opacity: 0.8,
                   }}>
                     {stat.label}
@@ -6,6 +6,7 @@ import React from 'react';
 import { AbsoluteFill } from 'remotion';
 import { Background, Theme, DEFAULT_COLORS } from '../components/Background';
 import { AnimatedText, FadeIn } from '../components/animations';
+import { useLayout } from '../components/layout';
 
 export interface TextSceneProps {
   content: {
@@ -20,6 +21,7 @@ export interface TextSceneProps {
 }
 
 export const TextScene: React.FC<TextSceneProps> = ({ content, theme }) => {
+  const { px } = useLayout();
   const variant = content.variant || 'dark';
   const isDark = variant === 'dark';
   const titleColor = content.titleColor || theme.primaryColor || DEFAULT_COLORS.primary;
@@ -32,25 +34,25 @@ export const TextScene: React.FC<TextSceneProps> = ({ content, theme }) => {
       <AbsoluteFill style={{ 
         justifyContent: 'center', 
         alignItems: 'center',
-        padding: 80,
+        padding: px(80),
       }}>
         <div style={{ textAlign: 'center', maxWidth: '80%' }}>
           {content.title && (
             <AnimatedText
               text={content.title}
               color={titleColor}
-              fontSize={64}
+              fontSize={px(64)}
               fontWeight="bold"
               delay={0}
               animation={animation}
             />
           )}
           {content.subtitle && (
-            <div style={{ marginTop: 20 }}>
+            <div style={{ marginTop: px(20) }}>
               <AnimatedText
                 text={content.subtitle}
                 color={textColor}
-                fontSize={32}
+                fontSize={px(32)}
                 fontWeight="normal"
                 delay={10}
                 animation={animation}
@@ -61,8 +63,8 @@ export const TextScene: React.FC<TextSceneProps> = ({ content, theme }) => {
             <FadeIn delay={20}>
               <p style={{ 
                 color: textColor, 
-                fontSize: 24, 
-                marginTop: 30,
+                fontSize: px(24), 
+                marginTop: px(30),
                 lineHeight: 1.6,
                 opacity: 0.9,
               }}>
@@ -6,6 +6,7 @@ import React from 'react';
 import { AbsoluteFill } from 'remotion';
 import { Background, Theme, DEFAULT_COLORS } from '../components/Background';
 import { AnimatedText } from '../components/animations';
+import { useLayout } from '../components/layout';
 
 export interface TitleSceneProps {
   content: {
@@ -19,6 +20,7 @@ export interface TitleSceneProps {
 }
 
 export const TitleScene: React.FC<TitleSceneProps> = ({ content, theme }) => {
+  const { px } = useLayout();
   const variant = content.variant || 'dark';
   const isDark = variant === 'dark';
   const titleColor = content.titleColor || theme.primaryColor || DEFAULT_COLORS.primary;
@@ -31,25 +33,25 @@ export const TitleScene: React.FC<TitleSceneProps> = ({ content, theme }) => {
       <AbsoluteFill style={{ 
         justifyContent: 'center', 
         alignItems: 'center',
-        padding: 60,
+        padding: px(60),
       }}>
         <div style={{ textAlign: 'center' }}>
           {content.title && (
             <AnimatedText
               text={content.title}
               color={titleColor}
-              fontSize={80}
+              fontSize={px(80)}
               fontWeight="bold"
               delay={0}
               animation={animation}
             />
           )}
           {content.subtitle && (
-            <div style={{ marginTop: 24 }}>
+            <div style={{ marginTop: px(24) }}>
               <AnimatedText
                 text={content.subtitle}
                 color={subtitleColor}
-                fontSize={36}
+                fontSize={px(36)}
                 fontWeight="normal"
                 delay={12}
                 animation={animation}
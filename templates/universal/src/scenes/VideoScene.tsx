@@ -0,0 +1,109 @@
+/**
+ * Video Scene - Play a video clip (B-roll) with an optional title overlay
+ */
+
+import React from 'react';
+import { AbsoluteFill, OffthreadVideo, useVideoConfig } from 'remotion';
+import { Background, Theme, useTransparent } from '../components/Background';
+import { useLayout } from '../components/layout';
+
+export interface VideoSceneProps {
+  content: {
+    url?: string;
+    /** Seconds to skip at the start of the clip */
+    trimStart?: number;
+    /** Position in the clip (seconds) where playback stops */
+    trimEnd?: number;
+    playbackRate?: number;
+    muted?: boolean;
+    volume?: number;
+    fit?: 'cover' | 'contain' | 'fill';
+    title?: string;
+    subtitle?: string;
+    overlayPosition?: 'top' | 'center' | 'bottom';
+    gradient?: boolean;
+  };
+  theme: Theme;
+}
+
+const OVERLAY_LAYOUT = {
+  top: { justifyContent: 'flex-start', gradient: 'linear-gradient(rgba(0,0,0,0.8) 0%, transparent 50%)' },
+  center: { justifyContent: 'center', gradient: 'radial-gradient(rgba(0,0,0,0.6) 0%, transparent 70%)' },
+  bottom: { justifyContent: 'flex-end', gradient: 'linear-gradient(transparent 50%, rgba(0,0,0,0.8) 100%)' },
+} as const;
+
+export const VideoScene: React.FC<VideoSceneProps> = ({ content, theme }) => {
+  const { px } = useLayout();
+  const { fps } = useVideoConfig();
+  const transparent = useTransparent();
+
+  if (!content.url) {
+    return (
+      <AbsoluteFill style={{ fontFamily: theme.fontFamily || 'Arial, sans-serif' }}>
+        <Background variant="dark" theme={theme} />
+        <AbsoluteFill style={{ justifyContent: 'center', alignItems: 'center' }}>
+          <p style={{ color: '#666', fontSize: px(24) }}>No video URL provided</p>
+        </AbsoluteFill>
+      </AbsoluteFill>
+    );
+  }
+
+  const trimBefore = content.trimStart ? Math.round(content.trimStart * fps) : undefined;
+  // An end before the start is ignored rather than producing an empty clip
+  const trimAfter = content.trimEnd && content.trimEnd > (content.trimStart ?? 0)
+    ? Math.round(content.trimEnd * fps)
+    : undefined;
+
+  const layout = OVERLAY_LAYOUT[content.overlayPosition || 'bottom'];
+  const gradient = content.gradient ?? true;
+
+  return (
+    <AbsoluteFill style={{ backgroundColor: transparent ? undefined : '#000' }}>
+      <OffthreadVideo
+        src={content.url}
+        trimBefore={trimBefore}
+        trimAfter={trimAfter}
+        playbackRate={content.playbackRate ?? 1}
+        muted={content.muted}
+        volume={content.volume ?? 1}
+        style={{
+          width: '100%',
+          height: '100%',
+          objectFit: content.fit || 'cover',
+        }}
+      />
+      {(content.title || content.subtitle) && (
+        <AbsoluteFill style={{
+          background: gradient ? layout.gradient : undefined,
+          justifyContent: layout.justifyContent,
+          alignItems: 'center',
+          padding: px(60),
+          fontFamily: theme.fontFamily || 'Arial, sans-serif',
+        }}>
+          <div style={{ textAlign: 'center' }}>
+            {content.title && (
+              <h2 style={{
+                color: '#fff',
+                fontSize: px(48),
+                margin: 0,
+                textShadow: '0 2px 10px rgba(0,0,0,0.5)',
+              }}>
+                {content.title}
+              </h2>
+            )}
+            {content.subtitle && (
+              <p style={{
+                color: 'rgba(255,255,255,0.8)',
+                fontSize: px(24),
+                marginTop: px(10),
+                textShadow: '0 2px 10px rgba(0,0,0,0.5)',
+              }}>
+                {content.subtitle}
+              </p>
+            )}
+          </div>
+        </AbsoluteFill>
+      )}
+    </AbsoluteFill>
+  );
+};
@@ -11,3 +11,5 @@ export { ListScene } from './ListScene';
 export { StatsScene } from './StatsScene';
 export { IntroScene } from './IntroScene';
 export { OutroScene } from './OutroScene';
+export { CTAScene } from './CTAScene';
+export { VideoScene } from './VideoScene';
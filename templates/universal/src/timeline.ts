@@ -0,0 +1,68 @@
+/**
+ * Scene timeline: each transition overlaps the end of one scene with the
+ * start of the next, so the video is shorter than the sum of the scenes.
+ *
+ * Mirrors src/render/timeline.ts on the server, which cannot import template
+ * sources: test/timeline.test.ts checks that both copies agree.
+ */
+
+export type TransitionType = 'fade' | 'slide' | 'wipe' | 'flip' | 'clockWipe' | 'none';
+export type TransitionDirection = 'from-left' | 'from-right' | 'from-top' | 'from-bottom';
+
+export interface TransitionConfig {
+  type?: TransitionType;
+  /** Duration in seconds */
+  duration?: number;
+  direction?: TransitionDirection;
+}
+
+export interface ResolvedTransition {
+  type: TransitionType;
+  direction: TransitionDirection;
+  durationInFrames: number;
+}
+
+export interface SceneTiming {
+  from: number;
+  durationInFrames: number;
+  transitionIn: ResolvedTransition | null;
+}
+
+const DEFAULT_TRANSITION_DURATION = 0.5;
+
+export const computeTimeline = (
+  scenes: Array<{ duration: number; transitionIn?: TransitionConfig }>,
+  transition: TransitionConfig | undefined,
+  fps: number
+): { scenes: SceneTiming[]; durationInFrames: number } => {
+  const timings: SceneTiming[] = [];
+  let end = 0;
+
+  scenes.forEach((scene, index) => {
+    const durationInFrames = Math.max(1, Math.round(scene.duration * fps));
+    const previous = timings[index - 1];
+
+    let transitionIn: ResolvedTransition | null = null;
+    if (previous) {
+      const merged = { ...transition, ...scene.transitionIn };
+      const type = merged.type ?? (scene.transitionIn || transition ? 'fade' : 'none');
+      const available = Math.min(
+        durationInFrames,
+        previous.durationInFrames - (previous.transitionIn?.durationInFrames ?? 0)
+      );
+      const frames = Math.min(
+        Math.round((merged.duration ?? DEFAULT_TRANSITION_DURATION) * fps),
+        Math.max(0, available)
+      );
+      if (type !== 'none' && frames > 0) {
+        transitionIn = { type, direction: merged.direction ?? 'from-right', durationInFrames: frames };
+      }
+    }
+
+    const from = end - (transitionIn?.durationInFrames ?? 0);
+    timings.push({ from, durationInFrames, transitionIn });
+    end = from + durationInFrames;
+  });
+
+  return { scenes: timings, durationInFrames: end };
+};
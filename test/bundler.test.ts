@@ -0,0 +1,147 @@
+/**
+ * DynamicBundler cache: LRU eviction by count and size, bundles in use kept,
+ * and a single build for concurrent requests. Builds write a few files instead
+ * of running webpack, through the same path bundle() and bundleEntry() take.
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DynamicBundler, BundleCacheOptions, BundleResult } from '../src/render/bundler.js';
+
+type Build = (outDir: string) => Promise<void>;
+
+interface BundlerInternals {
+  acquire(key: string, templateName: string, build: Build): Promise<BundleResult>;
+}
+
+let root: string;
+let counter = 0;
+
+before(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'bundler-'));
+});
+
+after(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+async function createBundler(options: BundleCacheOptions, cacheDir = path.join(root, String(counter++))) {
+  const bundler = new DynamicBundler(cacheDir, options);
+  await bundler.initialize();
+  const builds: string[] = [];
+
+  /** Get the bundle for `key`, building it as `size` bytes when missing */
+  const acquire = (key: string, size = 100, build?: Build) =>
+    (bundler as unknown as BundlerInternals).acquire(key, `template-${key}`, async (outDir) => {
+      builds.push(key);
+      await fs.mkdir(outDir, { recursive: true });
+      await fs.writeFile(path.join(outDir, 'bundle.js'), Buffer.alloc(size));
+      await build?.(outDir);
+    });
+
+  return { bundler, builds, acquire, cacheDir };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+test('cached bundles are reused', async () => {
+  const { builds, acquire } = await createBundler({ maxBytes: 10_000, maxEntries: 10 });
+
+  const first = await acquire('a');
+  await first.cleanup();
+  const second = await acquire('a');
+  await second.cleanup();
+
+  assert.equal(second.bundlePath, first.bundlePath);
+  assert.deepEqual(builds, ['a']);
+});
+
+test('the least recently used bundles are evicted beyond maxEntries', async () => {
+  const { bundler, builds, acquire } = await createBundler({ maxBytes: 10_000, maxEntries: 2 });
+
+  for (const key of ['a', 'b', 'a', 'c']) {
+    await (await acquire(key)).cleanup();
+    await tick();
+  }
+
+  assert.deepEqual(bundler.getStatus(), { entries: 2, sizeBytes: 200, maxBytes: 10_000, maxEntries: 2 });
+  await (await acquire('a')).cleanup();
+  await (await acquire('b')).cleanup();
+  assert.deepEqual(builds, ['a', 'b', 'c', 'b']);
+});
+
+test('the least recently used bundles are evicted beyond maxBytes', async () => {
+  const { bundler, acquire, cacheDir } = await createBundler({ maxBytes: 250, maxEntries: 10 });
+
+  const a = await acquire('a');
+  await a.cleanup();
+  await tick();
+  await (await acquire('b')).cleanup();
+  await tick();
+  await (await acquire('c', 150)).cleanup();
+
+  assert.deepEqual(bundler.getStatus(), { entries: 2, sizeBytes: 250, maxBytes: 250, maxEntries: 10 });
+  await assert.rejects(fs.access(a.bundlePath));
+  assert.deepEqual((await fs.readdir(cacheDir)).sort(), ['bundle-b', 'bundle-c', 'manifest.json']);
+});
+
+test('bundles in use are not evicted', async () => {
+  const { bundler, builds, acquire } = await createBundler({ maxBytes: 10_000, maxEntries: 1 });
+
+  const a = await acquire('a');
+  await tick();
+  const b = await acquire('b');
+  assert.equal(bundler.getStatus().entries, 2);
+  await fs.access(a.bundlePath);
+
+  await a.cleanup();
+  await b.cleanup();
+  await (await acquire('b')).cleanup();
+  assert.equal(bundler.getStatus().entries, 1);
+  assert.deepEqual(builds, ['a', 'b']);
+});
+
+test('concurrent requests for the same sources share one build', async () => {
+  const { builds, acquire } = await createBundler({ maxBytes: 10_000, maxEntries: 10 });
+
+  let finish!: () => void;
+  const building = new Promise<void>((resolve) => { finish = resolve; });
+  const results = [acquire('a', 100, () => building), acquire('a'), acquire('a')];
+  await tick();
+  finish();
+
+  const [first, ...rest] = await Promise.all(results);
+  for (const result of rest) assert.equal(result.bundlePath, first.bundlePath);
+  assert.deepEqual(builds, ['a']);
+  await Promise.all([first, ...rest].map((result) => result.cleanup()));
+});
+
+test('a failed build is shared by its waiters and retried on the next request', async () => {
+  const { bundler, builds, acquire, cacheDir } = await createBundler({ maxBytes: 10_000, maxEntries: 10 });
+
+  const failing = acquire('a', 100, async () => { throw new Error('syntax error'); });
+  const waiting = acquire('a');
+  await assert.rejects(failing, /syntax error/);
+  await assert.rejects(waiting, /syntax error/);
+  assert.equal(bundler.getStatus().entries, 0);
+  assert.deepEqual(await fs.readdir(cacheDir), ['manifest.json']);
+
+  await (await acquire('a')).cleanup();
+  assert.deepEqual(builds, ['a', 'a']);
+});
+
+test('the cache is restored from the manifest, unknown directories are removed', async () => {
+  const { acquire, cacheDir } = await createBundler({ maxBytes: 10_000, maxEntries: 10 });
+  await (await acquire('a')).cleanup();
+  await fs.mkdir(path.join(cacheDir, 'project-interrupted'));
+
+  const restarted = await createBundler({ maxBytes: 10_000, maxEntries: 10 }, cacheDir);
+  await (await restarted.acquire('a')).cleanup();
+
+  assert.deepEqual(restarted.builds, []);
+  assert.equal(restarted.bundler.getStatus().entries, 1);
+  assert.deepEqual((await fs.readdir(cacheDir)).sort(), ['bundle-a', 'manifest.json']);
+});
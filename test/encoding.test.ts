@@ -0,0 +1,111 @@
+/**
+ * Encoding settings: combinations rejected before bundling, and the defaults
+ * filled in for renderMedia
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findEncodingIssues, resolveEncoding, getMimeType, EncodingOptions } from '../src/render/encoding.js';
+
+const keys = (options: EncodingOptions) => findEncodingIssues(options).map(([key]) => key);
+
+test('defaults are valid for every container', () => {
+  for (const format of ['mp4', 'webm', 'mov', 'gif'] as const) {
+    assert.deepEqual(findEncodingIssues({ format }), [], format);
+  }
+});
+
+test('codecs must fit the container', () => {
+  assert.deepEqual(findEncodingIssues({ format: 'mp4', codec: 'vp9' }), [['codec', 'vp9 cannot be stored in mp4, use h264 or h265']]);
+  assert.deepEqual(keys({ format: 'webm', codec: 'h264' }), ['codec']);
+  assert.deepEqual(keys({ format: 'gif', codec: 'h264' }), ['codec']);
+  assert.deepEqual(keys({ format: 'mov', codec: 'h264' }), []);
+  assert.deepEqual(keys({ codec: 'h265' }), []);
+});
+
+test('crf is checked against the codec range', () => {
+  assert.deepEqual(keys({ codec: 'h264', crf: 0 }), ['crf']);
+  assert.deepEqual(keys({ codec: 'h265', crf: 0 }), []);
+  assert.deepEqual(keys({ format: 'webm', codec: 'vp9', crf: 63 }), []);
+  assert.deepEqual(findEncodingIssues({ format: 'webm', crf: 3 }), [['crf', 'must be between 4 and 63 for vp8']]);
+  assert.deepEqual(findEncodingIssues({ format: 'mov', crf: 20 }), [['crf', 'prores does not support crf']]);
+  assert.deepEqual(keys({ format: 'gif', crf: 20 }), ['crf']);
+});
+
+test('crf and videoBitrate are exclusive, and bitrates need a codec that takes them', () => {
+  assert.deepEqual(keys({ crf: 20, videoBitrate: '8M' }), ['crf']);
+  assert.deepEqual(keys({ format: 'mov', videoBitrate: '50M' }), ['videoBitrate']);
+  assert.deepEqual(keys({ format: 'gif', audioBitrate: '128k' }), ['audioBitrate']);
+});
+
+test('pixel formats are checked per codec', () => {
+  assert.deepEqual(keys({ pixelFormat: 'yuv444p10le' }), []);
+  assert.deepEqual(keys({ format: 'mov', pixelFormat: 'yuv420p' }), ['pixelFormat']);
+  assert.deepEqual(keys({ format: 'webm', codec: 'vp8', pixelFormat: 'yuv444p' }), ['pixelFormat']);
+  assert.deepEqual(keys({ format: 'gif', pixelFormat: 'yuv420p' }), ['pixelFormat']);
+});
+
+test('alpha pixel formats require transparent', () => {
+  assert.deepEqual(keys({ format: 'webm', pixelFormat: 'yuva420p' }), ['pixelFormat']);
+  assert.deepEqual(keys({ format: 'mov', pixelFormat: 'yuva444p10le' }), ['pixelFormat']);
+  assert.deepEqual(keys({ format: 'mov', pixelFormat: 'yuva444p10le', transparent: true }), []);
+  assert.deepEqual(keys({ format: 'mov', pixelFormat: 'yuv444p10le', transparent: true }), ['pixelFormat']);
+});
+
+test('transparent output needs a container and codec with alpha', () => {
+  assert.deepEqual(keys({ transparent: true }), ['transparent']);
+  assert.deepEqual(keys({ format: 'gif', transparent: true }), ['transparent']);
+  assert.deepEqual(keys({ format: 'mov', codec: 'h264', transparent: true }), ['transparent']);
+  assert.deepEqual(keys({ format: 'webm', transparent: true }), []);
+});
+
+test('x264Preset only applies to h264', () => {
+  assert.deepEqual(keys({ x264Preset: 'slow' }), []);
+  assert.deepEqual(keys({ codec: 'h265', x264Preset: 'slow' }), ['x264Preset']);
+});
+
+test('resolveEncoding fills in the renderer defaults', () => {
+  assert.deepEqual(resolveEncoding({}), {
+    container: 'mp4',
+    codec: 'h264',
+    audioCodec: 'aac',
+    crf: 18,
+    pixelFormat: 'yuv420p',
+    x264Preset: 'medium',
+  });
+  assert.deepEqual(resolveEncoding({ format: 'webm', videoBitrate: '4M', audioBitrate: '96k' }), {
+    container: 'webm',
+    codec: 'vp8',
+    audioCodec: 'opus',
+    videoBitrate: '4M',
+    audioBitrate: '96k',
+    pixelFormat: 'yuv420p',
+  });
+  assert.deepEqual(resolveEncoding({ format: 'gif' }), { container: 'gif', codec: 'gif', audioCodec: null });
+});
+
+test('resolveEncoding picks the ProRes profile from the pixel format', () => {
+  assert.equal(resolveEncoding({ format: 'mov' }).proResProfile, 'hq');
+  assert.equal(resolveEncoding({ format: 'mov' }).pixelFormat, 'yuv422p10le');
+  assert.equal(resolveEncoding({ format: 'mov', pixelFormat: 'yuv444p10le' }).proResProfile, '4444');
+  assert.deepEqual(resolveEncoding({ format: 'mov', transparent: true }), {
+    container: 'mov',
+    codec: 'prores',
+    audioCodec: 'aac',
+    pixelFormat: 'yuva444p10le',
+    proResProfile: '4444',
+    transparent: true,
+  });
+});
+
+test('transparent webm defaults to vp9 with yuva420p', () => {
+  const encoding = resolveEncoding({ format: 'webm', transparent: true });
+  assert.equal(encoding.codec, 'vp9');
+  assert.equal(encoding.pixelFormat, 'yuva420p');
+  assert.equal(encoding.crf, 28);
+});
+
+test('mime types follow the container', () => {
+  assert.equal(getMimeType('mov'), 'video/quicktime');
+  assert.equal(getMimeType('gif'), 'image/gif');
+});
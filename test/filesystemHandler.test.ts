@@ -0,0 +1,102 @@
+/**
+ * FilesystemHandler writing renders into a temporary output directory.
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { FilesystemHandler } from '../src/output/filesystemHandler.js';
+import { FilesystemOutputConfig } from '../src/config/index.js';
+import { FileData } from '../src/output/handler.js';
+
+const FILE: FileData = {
+  buffer: Buffer.from('video'),
+  filename: 'Summer Sale.mp4',
+  mimeType: 'video/mp4',
+  title: 'Été : -50% sur tout !',
+  metadata: { scenes: 3 },
+};
+
+let root: string;
+let counter = 0;
+
+before(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'fs-handler-'));
+});
+
+after(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+async function createHandler(config: Partial<FilesystemOutputConfig> = {}): Promise<FilesystemHandler> {
+  const handler = new FilesystemHandler({
+    dir: path.join(root, String(counter++)),
+    filenameTemplate: '{title-slug}.{ext}',
+    overwrite: false,
+    writeMetadata: false,
+    ...config,
+  });
+  await handler.initialize();
+  return handler;
+}
+
+test('placeholders are expanded in the filename template', async () => {
+  const handler = await createHandler({ filenameTemplate: '{date}/{name}-{title-slug}-{id}.{ext}' });
+  const result = await handler.store(FILE);
+
+  assert.match(result.id, /^\d{4}-\d{2}-\d{2}\/summer-sale-ete-50-sur-tout-[0-9a-f]{8}\.mp4$/);
+  assert.equal(result.id.slice(0, 10), new Date().toISOString().slice(0, 10));
+  assert.equal(result.url, pathToFileURL(result.path!).href);
+  assert.equal(await fs.readFile(result.path!, 'utf-8'), 'video');
+});
+
+test('the file name is used when there is no title, and unknown placeholders are kept', async () => {
+  const handler = await createHandler({ filenameTemplate: '{title-slug}-{unknown}.{ext}' });
+  const result = await handler.store({ ...FILE, title: undefined, filename: '!!!.gif' });
+  assert.equal(result.id, 'untitled-{unknown}.gif');
+});
+
+test('existing files get a numeric suffix instead of being overwritten', async () => {
+  const handler = await createHandler();
+  const ids = [];
+  for (let i = 0; i < 3; i++) {
+    ids.push((await handler.store({ ...FILE, buffer: Buffer.from(`take ${i}`) })).id);
+  }
+
+  assert.deepEqual(ids, ['ete-50-sur-tout.mp4', 'ete-50-sur-tout-1.mp4', 'ete-50-sur-tout-2.mp4']);
+  assert.equal((await handler.list()).length, 3);
+});
+
+test('existing files are replaced when overwrite is enabled', async () => {
+  const handler = await createHandler({ overwrite: true });
+  await handler.store(FILE);
+  const result = await handler.store({ ...FILE, buffer: Buffer.from('second take') });
+
+  assert.equal(result.id, 'ete-50-sur-tout.mp4');
+  assert.equal(await fs.readFile(result.path!, 'utf-8'), 'second take');
+});
+
+test('templates resolving outside of the output directory are rejected', async () => {
+  for (const filenameTemplate of ['../{name}.{ext}', '/tmp/{name}.{ext}', 'a/../../{name}.{ext}']) {
+    const handler = await createHandler({ filenameTemplate });
+    await assert.rejects(handler.store(FILE), /resolves outside of/, filenameTemplate);
+  }
+});
+
+test('metadata sidecars are written, listed with their render and deleted with it', async () => {
+  const handler = await createHandler({ writeMetadata: true });
+  const result = await handler.store(FILE);
+
+  const [file, ...rest] = await handler.list();
+  assert.deepEqual(rest, []);
+  assert.equal(file.id, result.id);
+  assert.equal(file.mimeType, 'video/mp4');
+  assert.deepEqual(file.metadata, { scenes: 3 });
+
+  await handler.delete(result.id);
+  assert.deepEqual(await handler.list(), []);
+  await assert.rejects(handler.delete('../outside.mp4'), /not found/);
+});
@@ -0,0 +1,85 @@
+/**
+ * QR codes of the universal template must scan at every error-correction level,
+ * including with a centre logo covering modules.
+ *
+ * The component is rendered to SVG markup, rasterised with sharp, the logo is
+ * painted as an opaque square where the <Img> sits, and jsQR decodes the result.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import sharp from 'sharp';
+import jsQR from 'jsqr';
+import qrcode from 'qrcode-generator';
+import { QRCode, QRErrorCorrectionLevel } from '../templates/universal/src/components/QRCode.js';
+
+const SIZE = 400;
+const LEVELS: QRErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+const VALUE = 'https://example.com/offre?utm_source=video&ref=été-2024';
+
+async function decode(element: React.ReactElement): Promise<string | undefined> {
+  const markup = renderToStaticMarkup(element);
+  const svg = markup.match(/<svg[\s\S]*<\/svg>/)?.[0];
+  assert.ok(svg, 'no SVG in the QR code markup');
+
+  let image = sharp(Buffer.from(svg.replace('<svg', '<svg xmlns="http://www.w3.org/2000/svg"')));
+
+  // The logo image is not loaded here: draw a solid square, the worst case for the decoder
+  const logo = markup.match(/<img[^>]*style="([^"]*)"/)?.[1];
+  if (logo) {
+    const px = (key: string) => Math.round(Number(logo.match(new RegExp(`(?:^|;)${key}:([\\d.]+)px`))?.[1]));
+    const width = px('width');
+    const height = px('height');
+    image = image.composite([{
+      input: { create: { width, height, channels: 4, background: '#333333' } },
+      left: px('left'),
+      top: px('top'),
+    }]);
+  }
+
+  // Decode with a white margin, as the code is printed on a card in the CTA scene
+  const { data, info } = await sharp(await image.png().toBuffer())
+    .extend({ top: 40, bottom: 40, left: 40, right: 40, background: '#ffffff' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return jsQR(new Uint8ClampedArray(data), info.width, info.height)?.data;
+}
+
+for (const level of LEVELS) {
+  test(`QR code decodes at level ${level}`, async () => {
+    assert.equal(await decode(<QRCode value={VALUE} size={SIZE} level={level} />), VALUE);
+  });
+}
+
+for (const level of LEVELS) {
+  test(`QR code with a logo decodes at level ${level}`, async () => {
+    const element = <QRCode value={VALUE} size={SIZE} level={level} logoUrl="https://example.com/logo.png" />;
+    assert.equal(await decode(element), VALUE);
+  });
+}
+
+test('QR code with the largest logo decodes at the default level', async () => {
+  const element = <QRCode value={VALUE} size={SIZE} logoUrl="https://example.com/logo.png" logoSize={0.3} />;
+  assert.equal(await decode(element), VALUE);
+});
+
+for (const level of LEVELS) {
+  test(`QR code with the largest logo allowed at level ${level} decodes`, async () => {
+    const element = <QRCode value={VALUE} size={SIZE} level={level} logoUrl="https://example.com/logo.png" logoSize={0.3} />;
+    assert.equal(await decode(element), VALUE);
+  });
+}
+
+test('QR code leaves the library string encoding untouched', () => {
+  renderToStaticMarkup(<QRCode value={VALUE} />);
+  assert.deepEqual(qrcode.stringToBytes('é'), [0xe9]);
+});
+
+test('QR code with custom colours and a narrow quiet zone decodes', async () => {
+  const element = <QRCode value={VALUE} size={SIZE} quietZone={2} fgColor="#1a237e" bgColor="#fff8e1" />;
+  assert.equal(await decode(element), VALUE);
+});
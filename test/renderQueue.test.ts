@@ -0,0 +1,119 @@
+/**
+ * RenderQueue: bounded parallelism, images ahead of videos, and backpressure
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RenderQueue, RenderKind } from '../src/render/queue.js';
+import { RenderCancelledError, RenderQueueFullError } from '../src/render/errors.js';
+
+/**
+ * A task that runs until release() is called, recording when it starts
+ */
+function gatedTask(started: string[], name: string) {
+  let release!: () => void;
+  const gate = new Promise<void>((resolve) => (release = resolve));
+  return {
+    release,
+    run: async () => {
+      started.push(name);
+      await gate;
+      return name;
+    },
+  };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+test('runs at most maxConcurrent tasks at once', async () => {
+  const queue = new RenderQueue(2, 10);
+  const started: string[] = [];
+  const tasks = ['a', 'b', 'c'].map((name) => gatedTask(started, name));
+  const runs = tasks.map((task, i) => queue.run('video', `v${i}`, task.run));
+
+  await tick();
+  assert.deepEqual(started, ['a', 'b']);
+  assert.equal(queue.getStatus().running.length, 2);
+  assert.equal(queue.getStatus().queued, 1);
+
+  tasks[0].release();
+  await runs[0];
+  await tick();
+  assert.deepEqual(started, ['a', 'b', 'c']);
+
+  tasks[1].release();
+  tasks[2].release();
+  assert.deepEqual(await Promise.all(runs), ['a', 'b', 'c']);
+  assert.equal(queue.getStatus().running.length, 0);
+});
+
+test('queued images start before queued videos, FIFO within each kind', async () => {
+  const queue = new RenderQueue(1, 10);
+  const started: string[] = [];
+  const blocker = gatedTask(started, 'blocker');
+  const first = queue.run('video', 'blocker', blocker.run);
+
+  const order: Array<[RenderKind, string]> = [['video', 'v1'], ['image', 'i1'], ['video', 'v2'], ['image', 'i2']];
+  const runs = order.map(([kind, name]) => queue.run(kind, name, async () => {
+    started.push(name);
+    return name;
+  }));
+
+  await tick();
+  blocker.release();
+  await Promise.all([first, ...runs]);
+
+  assert.deepEqual(started, ['blocker', 'i1', 'i2', 'v1', 'v2']);
+});
+
+test('rejects with RenderQueueFullError when the queue is full', async () => {
+  const queue = new RenderQueue(1, 1);
+  const started: string[] = [];
+  const running = gatedTask(started, 'running');
+  const first = queue.run('video', 'running', running.run);
+  const waiting = queue.run('video', 'waiting', async () => 'waiting');
+
+  assert.equal(queue.canAccept(), false);
+  await assert.rejects(queue.run('video', 'rejected', async () => 'rejected'), RenderQueueFullError);
+  // Images are not exempt from the limit
+  await assert.rejects(queue.run('image', 'rejected', async () => 'rejected'), RenderQueueFullError);
+
+  running.release();
+  assert.deepEqual(await Promise.all([first, waiting]), ['running', 'waiting']);
+  assert.equal(queue.canAccept(), true);
+});
+
+test('a task that can start immediately is accepted with a zero-length queue', async () => {
+  const queue = new RenderQueue(1, 0);
+  assert.equal(queue.canAccept(), true);
+  assert.equal(await queue.run('image', 'now', async () => 'now'), 'now');
+});
+
+test('aborting a queued task removes it from the queue', async () => {
+  const queue = new RenderQueue(1, 5);
+  const started: string[] = [];
+  const running = gatedTask(started, 'running');
+  const first = queue.run('video', 'running', running.run);
+
+  const controller = new AbortController();
+  const queued = queue.run('video', 'queued', async () => 'queued', { signal: controller.signal });
+  assert.equal(queue.getStatus().queued, 1);
+
+  controller.abort();
+  await assert.rejects(queued, RenderCancelledError);
+  assert.equal(queue.getStatus().queued, 0);
+
+  running.release();
+  await first;
+});
+
+test('a failing task frees its slot', async () => {
+  const queue = new RenderQueue(1, 5);
+  const failing = queue.run('video', 'failing', async () => {
+    throw new Error('render failed');
+  });
+  const next = queue.run('video', 'next', async () => 'next');
+
+  await assert.rejects(failing, /render failed/);
+  assert.equal(await next, 'next');
+});
@@ -0,0 +1,331 @@
+/**
+ * S3Handler against an in-process S3 stub: a path-style HTTP server that keeps
+ * objects in memory and implements the calls the handler makes (head/put/get/
+ * copy/delete object, list v2 and multipart uploads).
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { S3Handler } from '../src/output/s3Handler.js';
+import { S3OutputConfig } from '../src/config/index.js';
+
+const BUCKET = 'renders';
+const PART_SIZE = 5 * 1024 * 1024;
+
+interface StoredObject {
+  body: Buffer;
+  contentType?: string;
+  metadata: Record<string, string>;
+  lastModified: Date;
+}
+
+class S3Stub {
+  objects = new Map<string, StoredObject>();
+  completedUploads: Array<{ key: string; parts: number }> = [];
+  private uploads = new Map<string, { key: string; parts: Map<number, Buffer>; head: Omit<StoredObject, 'body' | 'lastModified'> }>();
+  private server: Server = createServer((req, res) => {
+    this.handle(req, res).catch((err) => {
+      res.statusCode = 500;
+      res.end(String(err));
+    });
+  });
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://stub');
+    const [bucket, ...rest] = url.pathname.slice(1).split('/').map(decodeURIComponent);
+    const key = rest.join('/');
+    const body = await readBody(req);
+
+    if (bucket !== BUCKET) return send(res, 404, xmlError('NoSuchBucket'));
+
+    if (!key) {
+      if (req.method === 'HEAD') return send(res, 200);
+      if (req.method === 'GET' && url.searchParams.get('list-type') === '2') {
+        return send(res, 200, this.list(url.searchParams.get('prefix') ?? ''));
+      }
+      return send(res, 400, xmlError('NotImplemented'));
+    }
+
+    const uploadId = url.searchParams.get('uploadId');
+
+    switch (req.method) {
+      case 'POST':
+        if (url.searchParams.has('uploads')) {
+          const id = `upload-${this.uploads.size + 1}`;
+          this.uploads.set(id, { key, parts: new Map(), head: objectHead(req) });
+          return send(res, 200, `<InitiateMultipartUploadResult><Bucket>${BUCKET}</Bucket><Key>${key}</Key><UploadId>${id}</UploadId></InitiateMultipartUploadResult>`);
+        }
+        if (uploadId) {
+          const upload = this.uploads.get(uploadId)!;
+          const numbers = [...body.toString().matchAll(/<PartNumber>(\d+)<\/PartNumber>/g)].map((m) => Number(m[1]));
+          this.objects.set(key, {
+            ...upload.head,
+            body: Buffer.concat(numbers.map((n) => upload.parts.get(n)!)),
+            lastModified: new Date(),
+          });
+          this.uploads.delete(uploadId);
+          this.completedUploads.push({ key, parts: numbers.length });
+          return send(res, 200, `<CompleteMultipartUploadResult><Key>${key}</Key><ETag>"done"</ETag></CompleteMultipartUploadResult>`);
+        }
+        break;
+
+      case 'PUT': {
+        if (uploadId) {
+          this.uploads.get(uploadId)!.parts.set(Number(url.searchParams.get('partNumber')), body);
+          res.setHeader('ETag', `"part-${url.searchParams.get('partNumber')}"`);
+          return send(res, 200);
+        }
+        const copySource = req.headers['x-amz-copy-source'];
+        if (typeof copySource === 'string') {
+          const sourceKey = decodeURIComponent(copySource).replace(/^\/?[^/]+\//, '');
+          const source = this.objects.get(sourceKey);
+          if (!source) return send(res, 404, xmlError('NoSuchKey'));
+          this.objects.set(key, { ...source, lastModified: new Date() });
+          return send(res, 200, '<CopyObjectResult><ETag>"copy"</ETag></CopyObjectResult>');
+        }
+        this.objects.set(key, { ...objectHead(req), body, lastModified: new Date() });
+        res.setHeader('ETag', '"put"');
+        return send(res, 200);
+      }
+
+      case 'HEAD':
+      case 'GET': {
+        const object = this.objects.get(key);
+        if (!object) return send(res, 404, req.method === 'GET' ? xmlError('NoSuchKey') : undefined);
+        res.setHeader('Content-Type', object.contentType ?? 'application/octet-stream');
+        res.setHeader('Content-Length', object.body.length);
+        res.setHeader('Last-Modified', object.lastModified.toUTCString());
+        for (const [name, value] of Object.entries(object.metadata)) {
+          res.setHeader(`x-amz-meta-${name}`, value);
+        }
+        res.statusCode = 200;
+        res.end(req.method === 'GET' ? object.body : undefined);
+        return;
+      }
+
+      case 'DELETE':
+        if (uploadId) this.uploads.delete(uploadId);
+        else this.objects.delete(key);
+        return send(res, 204);
+    }
+
+    send(res, 400, xmlError('NotImplemented'));
+  }
+
+  private list(prefix: string): string {
+    const contents = [...this.objects.entries()]
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, object]) =>
+        `<Contents><Key>${key}</Key><Size>${object.body.length}</Size><LastModified>${object.lastModified.toISOString()}</LastModified></Contents>`)
+      .join('');
+    return `<ListBucketResult><Name>${BUCKET}</Name><Prefix>${prefix}</Prefix><IsTruncated>false</IsTruncated>${contents}</ListBucketResult>`;
+  }
+}
+
+function objectHead(req: IncomingMessage): Omit<StoredObject, 'body' | 'lastModified'> {
+  const metadata: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (name.startsWith('x-amz-meta-') && typeof value === 'string') {
+      metadata[name.slice('x-amz-meta-'.length)] = value;
+    }
+  }
+  return { contentType: req.headers['content-type'], metadata };
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+function send(res: ServerResponse, status: number, xml?: string): void {
+  res.statusCode = status;
+  if (xml) res.setHeader('Content-Type', 'application/xml');
+  res.end(xml);
+}
+
+function xmlError(code: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${code}</Message></Error>`;
+}
+
+// ============================================================================
+
+const stub = new S3Stub();
+let endpoint = '';
+
+function createHandler(overrides: Partial<S3OutputConfig> = {}): S3Handler {
+  return new S3Handler({
+    bucket: BUCKET,
+    prefix: 'videos/',
+    region: 'us-east-1',
+    endpoint,
+    accessKeyId: 'test',
+    secretAccessKey: 'test-secret',
+    forcePathStyle: true,
+    urlTtlSeconds: 3600,
+    publicUrl: '',
+    partSizeBytes: PART_SIZE,
+    ...overrides,
+  });
+}
+
+before(async () => {
+  endpoint = await stub.start();
+});
+
+after(async () => {
+  await stub.stop();
+});
+
+test('initialize fails when the bucket is not accessible', async () => {
+  const handler = createHandler({ bucket: 'missing' });
+  await assert.rejects(handler.initialize(), /Cannot access bucket 'missing'/);
+  assert.equal(handler.getStatus().ready, false);
+});
+
+test('store uploads with a single PUT and returns a presigned URL', async () => {
+  const handler = createHandler();
+  await handler.initialize();
+
+  const buffer = Buffer.from('small render');
+  const result = await handler.store({
+    buffer,
+    mimeType: 'video/mp4',
+    filename: 'video-1.mp4',
+    metadata: { duration: 3, width: 1920, height: 1080 },
+  });
+
+  assert.match(result.id!, /^videos\/[0-9a-f-]+\.mp4$/);
+  const object = stub.objects.get(result.id!)!;
+  assert.deepEqual(object.body, buffer);
+  assert.equal(object.contentType, 'video/mp4');
+  assert.deepEqual(object.metadata, { duration: '3', width: '1920', height: '1080' });
+
+  const url = new URL(result.url);
+  assert.equal(url.pathname, `/${BUCKET}/${result.id}`);
+  assert.equal(url.searchParams.get('X-Amz-Expires'), '3600');
+  assert.ok(url.searchParams.get('X-Amz-Signature'));
+  assert.ok(result.expiresAt);
+
+  const response = await fetch(result.url);
+  assert.equal(response.status, 200);
+  assert.deepEqual(Buffer.from(await response.arrayBuffer()), buffer);
+
+  await handler.shutdown();
+});
+
+test('store switches to a multipart upload above the part size', async () => {
+  const handler = createHandler();
+  await handler.initialize();
+
+  const buffer = Buffer.alloc(PART_SIZE * 2 + 1024, 7);
+  const progress: number[] = [];
+  const result = await handler.store({ buffer, mimeType: 'video/webm', filename: 'big.webm' }, (f) => progress.push(f));
+
+  assert.deepEqual(stub.completedUploads.at(-1), { key: result.id, parts: 3 });
+  const object = stub.objects.get(result.id!)!;
+  assert.equal(object.body.length, buffer.length);
+  assert.ok(object.body.equals(buffer));
+  assert.equal(object.contentType, 'video/webm');
+  assert.ok(progress.length >= 3, 'progress is reported per part');
+  assert.equal(Math.max(...progress), 1);
+
+  await handler.shutdown();
+});
+
+test('presigned URLs are capped at 7 days and publicUrl returns plain URLs', async () => {
+  const presigned = createHandler({ urlTtlSeconds: 30 * 24 * 3600 });
+  await presigned.initialize();
+  const stored = await presigned.store({ buffer: Buffer.from('a'), mimeType: 'image/png', filename: 'still.png' });
+  assert.equal(new URL(stored.url).searchParams.get('X-Amz-Expires'), String(7 * 24 * 3600));
+  await presigned.shutdown();
+
+  const publicHandler = createHandler({ publicUrl: 'https://cdn.example.com/' });
+  await publicHandler.initialize();
+  const result = await publicHandler.store({ buffer: Buffer.from('b'), mimeType: 'image/png', filename: 'still.png' });
+  assert.equal(result.url, `https://cdn.example.com/${result.id}`);
+  assert.equal(result.expiresAt, undefined);
+  await assert.rejects(publicHandler.extendTtl(result.id!, 60), /Public S3 URLs do not expire/);
+  await publicHandler.shutdown();
+});
+
+test('list returns the objects under the prefix, newest first', async () => {
+  const handler = createHandler({ prefix: 'list/' });
+  await handler.initialize();
+  stub.objects.set('elsewhere/other.mp4', { body: Buffer.from('x'), metadata: {}, lastModified: new Date() });
+
+  const first = await handler.store({ buffer: Buffer.from('one'), mimeType: 'video/mp4', filename: 'a.mp4' });
+  stub.objects.get(first.id!)!.lastModified = new Date(Date.now() - 60_000);
+  const second = await handler.store({ buffer: Buffer.from('three'), mimeType: 'video/mp4', filename: 'b.mp4' });
+
+  const files = await handler.list();
+  assert.deepEqual(files.map((f) => f.id), [second.id, first.id]);
+  assert.equal(files[0].size, 5);
+  assert.equal(files[0].filename, second.id!.slice('list/'.length));
+
+  await handler.shutdown();
+});
+
+test('delete removes the object and rejects unknown or foreign keys', async () => {
+  const handler = createHandler();
+  await handler.initialize();
+
+  const result = await handler.store({ buffer: Buffer.from('gone'), mimeType: 'video/mp4', filename: 'a.mp4' });
+  await handler.delete(result.id!);
+  assert.equal(stub.objects.has(result.id!), false);
+
+  await assert.rejects(handler.delete(result.id!), /not found/);
+  stub.objects.set('private/secret.mp4', { body: Buffer.from('x'), metadata: {}, lastModified: new Date() });
+  await assert.rejects(handler.delete('private/secret.mp4'), /not found/);
+  assert.equal(stub.objects.has('private/secret.mp4'), true);
+
+  await handler.shutdown();
+});
+
+test('extendTtl issues a new presigned URL for the requested duration', async () => {
+  const handler = createHandler();
+  await handler.initialize();
+
+  const result = await handler.store({ buffer: Buffer.from('ttl'), mimeType: 'video/mp4', filename: 'a.mp4' });
+  const extended = await handler.extendTtl(result.id!, 7200);
+
+  assert.equal(extended.id, result.id);
+  assert.equal(extended.mimeType, 'video/mp4');
+  assert.equal(extended.size, 3);
+  assert.equal(new URL(extended.url!).searchParams.get('X-Amz-Expires'), '7200');
+
+  await handler.shutdown();
+});
+
+test('regenerateToken moves the object to a new key', async () => {
+  const handler = createHandler();
+  await handler.initialize();
+
+  const buffer = Buffer.from('moved');
+  const result = await handler.store({ buffer, mimeType: 'video/mp4', filename: 'a.mp4', metadata: { fps: 30 } });
+  const regenerated = await handler.regenerateToken(result.id!);
+
+  assert.notEqual(regenerated.id, result.id);
+  assert.match(regenerated.id, /^videos\/[0-9a-f-]+\.mp4$/);
+  assert.equal(stub.objects.has(result.id!), false);
+  assert.deepEqual(stub.objects.get(regenerated.id)!.body, buffer);
+  assert.deepEqual(regenerated.metadata, { fps: '30' });
+
+  assert.equal((await fetch(result.url)).status, 404);
+  const response = await fetch(regenerated.url!);
+  assert.deepEqual(Buffer.from(await response.arrayBuffer()), buffer);
+
+  await handler.shutdown();
+});
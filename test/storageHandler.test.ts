@@ -0,0 +1,209 @@
+/**
+ * StorageHandler against an in-process storage service stub: a JSON-RPC
+ * endpoint answering tools/list and tools/call, with failures injected per tool.
+ */
+
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { StorageHandler } from '../src/output/storageHandler.js';
+import { StorageOutputConfig } from '../src/config/index.js';
+
+const API_KEY = 'test-key';
+const CHUNKED_TOOLS = ['storage_store', 'storage_upload_init', 'storage_upload_chunk', 'storage_upload_complete'];
+
+interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+class StorageStub {
+  tools: string[] = [];
+  calls: ToolCall[] = [];
+  /** HTTP statuses returned by the next calls to a tool, 0 lets a call through */
+  failures = new Map<string, number[]>();
+  /** Text returned by a tool instead of the default */
+  replies = new Map<string, string>();
+  private chunks = new Map<string, Buffer[]>();
+  private server: Server = createServer((req, res) => {
+    this.handle(req, res).catch((err) => {
+      res.statusCode = 500;
+      res.end(String(err));
+    });
+  });
+
+  reset(tools: string[]): void {
+    this.tools = tools;
+    this.calls = [];
+    this.failures.clear();
+    this.replies.clear();
+    this.chunks.clear();
+  }
+
+  /** Calls to a tool that reached the service, failed or not */
+  callsTo(name: string): ToolCall[] {
+    return this.calls.filter((call) => call.name === name);
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/mcp`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const { id, method, params } = JSON.parse(Buffer.concat(chunks).toString());
+
+    if (req.headers.authorization !== `Bearer ${API_KEY}`) return send(res, 401);
+
+    if (method === 'tools/list') {
+      return send(res, 200, { jsonrpc: '2.0', id, result: { tools: this.tools.map((name) => ({ name })) } });
+    }
+
+    const call = params as ToolCall;
+    this.calls.push(call);
+    const status = this.failures.get(call.name)?.shift();
+    if (status) return send(res, status);
+
+    const text = this.replies.get(call.name) ?? this.reply(call);
+    return send(res, 200, { jsonrpc: '2.0', id, result: { content: [{ type: 'text', text }] } });
+  }
+
+  private reply({ name, arguments: args }: ToolCall): string {
+    switch (name) {
+      case 'storage_store':
+        return 'https://files.example.com/inline';
+      case 'storage_upload_init':
+        return 'upload-1';
+      case 'storage_upload_chunk': {
+        const uploadId = args.uploadId as string;
+        const chunks = this.chunks.get(uploadId) ?? [];
+        chunks[args.index as number] = Buffer.from(args.data as string, 'base64');
+        this.chunks.set(uploadId, chunks);
+        return 'ok';
+      }
+      case 'storage_upload_complete':
+        return JSON.stringify({ url: 'https://files.example.com/chunked', id: 'file-1' });
+      default:
+        return 'ok';
+    }
+  }
+
+  uploaded(uploadId: string): Buffer {
+    return Buffer.concat(this.chunks.get(uploadId) ?? []);
+  }
+}
+
+function send(res: ServerResponse, status: number, body?: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+const stub = new StorageStub();
+let endpoint: string;
+
+before(async () => {
+  endpoint = await stub.start();
+});
+
+after(async () => {
+  await stub.stop();
+});
+
+beforeEach(() => {
+  stub.reset(CHUNKED_TOOLS);
+});
+
+async function createHandler(config: Partial<StorageOutputConfig> = {}): Promise<StorageHandler> {
+  const handler = new StorageHandler({
+    endpoint,
+    apiKey: API_KEY,
+    chunkSizeBytes: 10,
+    maxUploadBytes: 1000,
+    maxInlineBytes: 100,
+    maxRetries: 2,
+    ...config,
+  });
+  await handler.initialize();
+  return handler;
+}
+
+const file = (size: number) => ({
+  buffer: Buffer.from(Array.from({ length: size }, (_, i) => i % 256)),
+  filename: 'clip.mp4',
+  mimeType: 'video/mp4',
+  metadata: { scenes: 2 },
+});
+
+test('large renders are sent in chunks, with progress per chunk', async () => {
+  const handler = await createHandler();
+  const progress: number[] = [];
+  const data = file(25);
+
+  const result = await handler.store(data, (fraction) => progress.push(fraction));
+
+  assert.deepEqual(result, { url: 'https://files.example.com/chunked', id: 'file-1', metadata: { scenes: 2 } });
+  assert.deepEqual(stub.callsTo('storage_upload_chunk').map((call) => [call.arguments.index, call.arguments.offset]), [[0, 0], [1, 10], [2, 20]]);
+  assert.deepEqual(stub.callsTo('storage_upload_complete')[0].arguments, { uploadId: 'upload-1', chunkCount: 3, size: 25 });
+  assert.deepEqual(stub.uploaded('upload-1'), data.buffer);
+  assert.deepEqual(progress, [1 / 3, 2 / 3, 1]);
+});
+
+test('the chunk size imposed by the service is used', async () => {
+  const handler = await createHandler();
+  stub.replies.set('storage_upload_init', JSON.stringify({ uploadId: 'upload-1', chunkSize: 20 }));
+
+  await handler.store(file(25));
+  assert.equal(stub.callsTo('storage_upload_chunk').length, 2);
+  assert.equal(stub.callsTo('storage_upload_complete')[0].arguments.chunkCount, 2);
+});
+
+test('a chunk is retried on 5xx and 429 without restarting the upload', async () => {
+  const handler = await createHandler();
+  stub.failures.set('storage_upload_chunk', [503, 429]);
+
+  const data = file(15);
+  await handler.store(data);
+  assert.equal(stub.callsTo('storage_upload_init').length, 1);
+  assert.deepEqual(stub.callsTo('storage_upload_chunk').map((call) => call.arguments.index), [0, 0, 0, 1]);
+  assert.deepEqual(stub.uploaded('upload-1'), data.buffer);
+});
+
+test('a failed chunked upload is aborted when the service supports it', async () => {
+  stub.reset([...CHUNKED_TOOLS, 'storage_upload_abort']);
+  const handler = await createHandler({ maxRetries: 0 });
+  stub.failures.set('storage_upload_chunk', [0, 500]);
+
+  await assert.rejects(handler.store(file(25)), /Storage service error: 500/);
+  assert.equal(stub.callsTo('storage_upload_complete').length, 0);
+  assert.deepEqual(stub.callsTo('storage_upload_abort').map((call) => call.arguments), [{ uploadId: 'upload-1' }]);
+});
+
+test('413 is not retried', async () => {
+  const handler = await createHandler();
+  stub.failures.set('storage_upload_chunk', [413]);
+
+  await assert.rejects(handler.store(file(5)), /too large \(HTTP 413\)/);
+  assert.equal(stub.callsTo('storage_upload_chunk').length, 1);
+});
+
+test('without chunked upload, renders are sent inline up to maxInlineBytes', async () => {
+  stub.reset(['storage_store']);
+  const handler = await createHandler();
+
+  const result = await handler.store(file(50));
+  assert.deepEqual(result, { url: 'https://files.example.com/inline', metadata: { scenes: 2 } });
+  assert.equal(stub.callsTo('storage_store')[0].arguments.data, file(50).buffer.toString('base64'));
+
+  await assert.rejects(handler.store(file(101)), /no chunked upload/);
+  await assert.rejects(handler.store(file(1001)), /STORAGE_MAX_UPLOAD_BYTES/);
+  assert.equal(stub.callsTo('storage_store').length, 1);
+});
@@ -0,0 +1,103 @@
+/**
+ * Scene timeline: the server computes durations, storyboard frames and warnings
+ * from its copy of computeTimeline, and the template lays the video out with its own.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeTimeline } from '../src/render/timeline.js';
+import { computeTimeline as computeTemplateTimeline } from '../templates/universal/src/timeline.js';
+import { Transition } from '../src/render/schemas.js';
+
+const FPS = 30;
+
+const CASES: Array<{
+  name: string;
+  scenes: Array<{ duration: number; transitionIn?: Transition }>;
+  transition?: Transition;
+  fps?: number;
+}> = [
+  { name: 'a single scene', scenes: [{ duration: 4 }] },
+  { name: 'hard cuts', scenes: [{ duration: 3 }, { duration: 2.5 }, { duration: 5 }] },
+  { name: 'a default fade', scenes: [{ duration: 3 }, { duration: 3 }], transition: { type: 'fade' } },
+  {
+    name: 'a global transition with per-scene overrides',
+    scenes: [
+      { duration: 3 },
+      { duration: 3, transitionIn: { type: 'slide', direction: 'from-left' } },
+      { duration: 3, transitionIn: { type: 'none' } },
+      { duration: 3, transitionIn: { duration: 1.2 } },
+    ],
+    transition: { type: 'wipe', duration: 0.8, direction: 'from-top' },
+  },
+  { name: 'a transition longer than the scenes', scenes: [{ duration: 0.4 }, { duration: 0.3 }, { duration: 2 }], transition: { type: 'fade', duration: 2 } },
+  { name: 'a per-scene transition without a global one', scenes: [{ duration: 2 }, { duration: 2, transitionIn: { type: 'clockWipe' } }] },
+  { name: 'fractional durations at 24 fps', scenes: [{ duration: 1.37 }, { duration: 0.01 }, { duration: 2.71 }], transition: { type: 'flip', duration: 0.33 }, fps: 24 },
+];
+
+for (const { name, scenes, transition, fps = FPS } of CASES) {
+  test(`server and template timelines agree for ${name}`, () => {
+    assert.deepEqual(computeTemplateTimeline(scenes, transition, fps), computeTimeline(scenes, transition, fps));
+  });
+}
+
+test('hard cuts place scenes back to back', () => {
+  const timeline = computeTimeline([{ duration: 2 }, { duration: 3 }, { duration: 1.5 }], undefined, FPS);
+
+  assert.deepEqual(timeline.scenes.map((s) => [s.from, s.durationInFrames]), [[0, 60], [60, 90], [150, 45]]);
+  assert.equal(timeline.durationInFrames, 195);
+  assert.ok(timeline.scenes.every((s) => s.transitionIn === null));
+});
+
+test('transitions overlap scenes and shorten the total duration', () => {
+  const timeline = computeTimeline(
+    [{ duration: 3 }, { duration: 3 }, { duration: 3 }],
+    { type: 'slide', duration: 0.5 },
+    FPS
+  );
+
+  assert.equal(timeline.scenes[0].transitionIn, null);
+  assert.deepEqual(timeline.scenes[1].transitionIn, { type: 'slide', direction: 'from-right', durationInFrames: 15 });
+  assert.deepEqual(timeline.scenes.map((s) => s.from), [0, 75, 150]);
+  assert.equal(timeline.durationInFrames, 3 * 90 - 2 * 15);
+});
+
+test('a scene transition overrides the global one, and type none cuts', () => {
+  const timeline = computeTimeline(
+    [{ duration: 2 }, { duration: 2, transitionIn: { type: 'wipe', direction: 'from-top', duration: 1 } }, { duration: 2, transitionIn: { type: 'none' } }],
+    { type: 'fade' },
+    FPS
+  );
+
+  assert.deepEqual(timeline.scenes[1].transitionIn, { type: 'wipe', direction: 'from-top', durationInFrames: 30 });
+  assert.equal(timeline.scenes[2].transitionIn, null);
+  assert.equal(timeline.durationInFrames, 60 + 60 - 30 + 60);
+});
+
+test('a transition is clamped to the shorter adjacent scene', () => {
+  const timeline = computeTimeline([{ duration: 3 }, { duration: 0.5 }], { type: 'fade', duration: 2 }, FPS);
+
+  assert.equal(timeline.scenes[1].transitionIn?.durationInFrames, 15);
+  assert.equal(timeline.durationInFrames, 90);
+});
+
+test('a transition cannot eat into the previous scene\'s own transition', () => {
+  // Scene 1 lasts 30 frames and already spends 20 of them on its incoming transition
+  const timeline = computeTimeline(
+    [{ duration: 2 }, { duration: 1 }, { duration: 2 }],
+    { type: 'fade', duration: 20 / FPS },
+    FPS
+  );
+
+  assert.equal(timeline.scenes[1].transitionIn?.durationInFrames, 20);
+  assert.equal(timeline.scenes[2].transitionIn?.durationInFrames, 10);
+  assert.equal(timeline.durationInFrames, 60 + 30 + 60 - 20 - 10);
+});
+
+test('scenes last at least one frame', () => {
+  const timeline = computeTimeline([{ duration: 0.001 }, { duration: 0.001 }], { type: 'fade' }, FPS);
+
+  assert.deepEqual(timeline.scenes.map((s) => s.durationInFrames), [1, 1]);
+  assert.equal(timeline.scenes[1].transitionIn?.durationInFrames, 1);
+  assert.equal(timeline.durationInFrames, 1);
+});
@@ -0,0 +1,133 @@
+/**
+ * UrlHandler serving renders from a temporary serveDir on a free local port.
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, AddressInfo } from 'net';
+import { request } from 'http';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { UrlHandler } from '../src/output/urlHandler.js';
+import { UrlOutputConfig } from '../src/config/index.js';
+
+const BODY = Buffer.from('0123456789abcdefghijklmnopqrstuvwxyz');
+
+let serveDir: string;
+
+before(async () => {
+  serveDir = await fs.mkdtemp(path.join(os.tmpdir(), 'url-handler-'));
+});
+
+after(async () => {
+  await fs.rm(serveDir, { recursive: true, force: true });
+});
+
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+/** Status of a GET sent with node's http client; fetch adds Cache-Control: no-cache to conditional requests */
+function getStatus(url: string, headers: Record<string, string>): Promise<number | undefined> {
+  return new Promise((resolve, reject) => {
+    request(url, { headers }, (res) => {
+      res.resume();
+      resolve(res.statusCode);
+    }).on('error', reject).end();
+  });
+}
+
+async function startHandler(dir: string): Promise<UrlHandler> {
+  const port = await freePort();
+  const config: UrlOutputConfig = {
+    port,
+    maxDiskBytes: 1024 * 1024,
+    maxFiles: 10,
+    ttlSeconds: 3600,
+    baseUrl: `http://127.0.0.1:${port}`,
+    serveDir: dir,
+  };
+  const handler = new UrlHandler(config);
+  await handler.initialize();
+  return handler;
+}
+
+test('stored files survive a restart, orphans are removed', async () => {
+  const dir = path.join(serveDir, 'restart');
+  let handler = await startHandler(dir);
+  const stored = await handler.store({ buffer: BODY, filename: 'clip.mp4', mimeType: 'video/mp4', metadata: { title: 'Clip' } });
+  await handler.shutdown();
+
+  await fs.writeFile(path.join(dir, 'orphan.mp4'), 'left over');
+
+  handler = await startHandler(dir);
+  try {
+    const [file] = await handler.list();
+    assert.equal(file.id, stored.id);
+    assert.deepEqual(file.metadata, { title: 'Clip' });
+    assert.equal(file.size, BODY.length);
+    assert.deepEqual((await fs.readdir(dir)).sort(), [`${stored.id}.mp4`, 'index.json']);
+
+    const res = await fetch(file.url);
+    assert.equal(res.status, 200);
+    assert.deepEqual(Buffer.from(await res.arrayBuffer()), BODY);
+  } finally {
+    await handler.shutdown();
+  }
+});
+
+test('files are served with ranges, HEAD and conditional requests', async () => {
+  const handler = await startHandler(path.join(serveDir, 'serve'));
+  try {
+    const { url } = await handler.store({ buffer: BODY, filename: 'clip.mp4', mimeType: 'video/mp4' });
+
+    const full = await fetch(url);
+    assert.equal(full.status, 200);
+    assert.equal(full.headers.get('content-type'), 'video/mp4');
+    assert.equal(full.headers.get('accept-ranges'), 'bytes');
+    assert.match(full.headers.get('cache-control') ?? '', /^private, max-age=\d+, immutable$/);
+    await full.arrayBuffer();
+
+    const range = await fetch(url, { headers: { Range: 'bytes=10-19' } });
+    assert.equal(range.status, 206);
+    assert.equal(range.headers.get('content-range'), `bytes 10-19/${BODY.length}`);
+    assert.equal(await range.text(), 'abcdefghij');
+
+    const head = await fetch(url, { method: 'HEAD' });
+    assert.equal(head.status, 200);
+    assert.equal(head.headers.get('content-length'), String(BODY.length));
+    assert.equal(await head.text(), '');
+
+    const etag = full.headers.get('etag');
+    assert.ok(etag);
+    assert.equal(await getStatus(url, { 'If-None-Match': etag }), 304);
+    assert.equal(await getStatus(url, { 'If-Modified-Since': full.headers.get('last-modified')! }), 304);
+
+    const download = await fetch(`${url}&download=1`);
+    assert.match(download.headers.get('content-disposition') ?? '', /^attachment; /);
+    await download.arrayBuffer();
+  } finally {
+    await handler.shutdown();
+  }
+});
+
+test('wrong tokens, unknown files and expired files are refused', async () => {
+  const handler = await startHandler(path.join(serveDir, 'refuse'));
+  try {
+    const { id, url } = await handler.store({ buffer: BODY, filename: 'clip.mp4', mimeType: 'video/mp4' });
+
+    assert.equal((await fetch(url.replace(/token=\w+/, 'token=nope'))).status, 403);
+    assert.equal((await fetch(url.replace(id, 'missing'))).status, 404);
+
+    await handler.extendTtl(id, -3600);
+    assert.equal((await fetch(url)).status, 410);
+    assert.deepEqual(await handler.list(), []);
+  } finally {
+    await handler.shutdown();
+  }
+});